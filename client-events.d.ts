@@ -0,0 +1,8 @@
+import type { ThemeJsonUpdate } from "virtual:wordpress-hmr";
+import "vite/types/customEvent.d.ts";
+
+declare module "vite/types/customEvent.d.ts" {
+    interface CustomEventMap {
+        "wordpress:theme-json-update": ThemeJsonUpdate;
+    }
+}
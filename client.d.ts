@@ -0,0 +1,63 @@
+// An import would turn this file into a module, which can't declare the virtual module.
+// oxlint-disable-next-line typescript/triple-slash-reference
+/// <reference path="./client-events.d.ts" />
+
+declare module "virtual:wordpress-hmr" {
+    /**
+     * A stylesheet Vite hot-updated in the editor.
+     */
+    export interface CssUpdate {
+        /**
+         * Path of the updated stylesheet.
+         */
+        path: string;
+
+        /**
+         * Time the update was made on the server.
+         */
+        timestamp: number;
+
+        /**
+         * Documents of the editor iframes the update was pushed into.
+         */
+        documents: Document[];
+    }
+
+    /**
+     * Blocks re-registered after their module was hot-reloaded.
+     */
+    export interface BlockUpdate {
+        /**
+         * Names of the re-registered blocks.
+         */
+        blocks: string[];
+    }
+
+    /**
+     * A change to the theme's base `theme.json`.
+     */
+    export interface ThemeJsonUpdate {
+        /**
+         * Path of the changed file, relative to the Vite root.
+         */
+        file: string;
+    }
+
+    /**
+     * Run a callback after a stylesheet is updated. Returns a function that
+     * removes the callback.
+     */
+    export function onCssUpdate(callback: (update: CssUpdate) => void): () => void;
+
+    /**
+     * Run a callback after a block module is hot-reloaded. Returns a
+     * function that removes the callback.
+     */
+    export function onBlockUpdate(callback: (update: BlockUpdate) => void): () => void;
+
+    /**
+     * Run a callback after the base `theme.json` changes. Returns a
+     * function that removes the callback.
+     */
+    export function onThemeJsonUpdate(callback: (update: ThemeJsonUpdate) => void): () => void;
+}
@@ -15,6 +15,135 @@ export const EXEMPT_PACKAGES = [
     "@wordpress/ui",
 ] as const;
 
+/**
+ * Third-party packages WordPress core exposes as globals, keyed by the
+ * package name used to toggle them, with every request they cover.
+ *
+ * @see https://github.com/WordPress/gutenberg/blob/trunk/packages/dependency-extraction-webpack-plugin/lib/util.js
+ */
+export const VENDOR_EXTERNALS = {
+    react: ["react"],
+    "react-dom": ["react-dom", "react-dom/client"],
+    "react/jsx-runtime": ["react/jsx-runtime"],
+    jquery: ["jquery"],
+    lodash: ["lodash", "lodash-es"],
+    moment: ["moment"],
+    "@babel/runtime/regenerator": ["@babel/runtime/regenerator"],
+} as const;
+
+/**
+ * The WordPress release that first registered the script handle of each
+ * package added after 5.0. Packages not listed are available in every
+ * release that ships the block editor.
+ */
+export const PACKAGE_VERSIONS: Record<string, string> = {
+    "@wordpress/block-editor": "5.2",
+    "@wordpress/escape-html": "5.2",
+    "@wordpress/keyboard-shortcuts": "5.2",
+    "@wordpress/data-controls": "5.3",
+    "@wordpress/primitives": "5.3",
+    "@wordpress/server-side-render": "5.3",
+    "@wordpress/block-directory": "5.5",
+    "@wordpress/warning": "5.5",
+    "@wordpress/reusable-blocks": "5.7",
+    "@wordpress/customize-widgets": "5.8",
+    "@wordpress/edit-widgets": "5.8",
+    "@wordpress/widgets": "5.8",
+    "@wordpress/edit-site": "5.9",
+    "@wordpress/preferences": "6.1",
+    "@wordpress/preferences-persistence": "6.1",
+    "@wordpress/style-engine": "6.1",
+    "@wordpress/private-apis": "6.2",
+    "@wordpress/commands": "6.3",
+    "@wordpress/core-commands": "6.3",
+    "@wordpress/router": "6.3",
+    "@wordpress/patterns": "6.4",
+    "@wordpress/dataviews": "6.5",
+    "react/jsx-runtime": "6.6",
+};
+
+/**
+ * Globals polyfilled by the `wp-polyfill` script. Entries with a module
+ * referencing any of them depend on it when `injectPolyfill` is `auto`.
+ */
+export const POLYFILL_GLOBALS = [
+    "Promise",
+    "Symbol",
+    "Map",
+    "Set",
+    "WeakMap",
+    "WeakSet",
+    "Array.from",
+    "Array.of",
+    "Object.assign",
+    "Object.entries",
+    "Object.values",
+    "Object.fromEntries",
+    "globalThis",
+    "queueMicrotask",
+    "structuredClone",
+] as const;
+
+/**
+ * WordPress packages only available as script modules, which stay as ES
+ * imports resolved through the WordPress import map.
+ *
+ * @see https://github.com/WordPress/gutenberg/blob/trunk/packages/dependency-extraction-webpack-plugin/lib/util.js
+ */
+export const SCRIPT_MODULES = [
+    "@wordpress/interactivity",
+    "@wordpress/interactivity-router",
+] as const;
+
+/**
+ * WordPress packages available both as a classic script and as a script
+ * module. Script modules import them as dynamic module dependencies, while
+ * classic scripts read their global.
+ *
+ * @see https://github.com/WordPress/gutenberg/blob/trunk/packages/dependency-extraction-webpack-plugin/lib/util.js
+ */
+export const CLASSIC_SCRIPT_MODULES = ["@wordpress/a11y"] as const;
+
+/**
+ * Stylesheets of `@wordpress/*` packages that core registers under a style
+ * handle other than `wp-<package>`.
+ */
+export const STYLE_HANDLES: Record<string, string> = {
+    "@wordpress/block-library/build-style/editor.css": "wp-edit-blocks",
+    "@wordpress/block-library/build-style/theme.css": "wp-block-library-theme",
+};
+
+/**
+ * Module id that replaces externalized stylesheets imported from JavaScript.
+ */
+export const STYLE_PLACEHOLDER_PREFIX = "\0wordpress-style:";
+
+/**
+ * Module id of the JSX runtime used by the automatic JSX transform, which
+ * re-exports the `react-jsx-runtime` script's `ReactJSXRuntime` global.
+ */
+export const JSX_RUNTIME_ID = "\0wordpress:react/jsx-runtime";
+
+/**
+ * Module id of the editor HMR client, imported once from the editor entry.
+ */
+export const HMR_MODULE_ID = "virtual:wordpress-hmr";
+
+/**
+ * Resolved module id of the editor HMR client.
+ */
+export const RESOLVED_HMR_MODULE_ID = `\0${HMR_MODULE_ID}`;
+
+/**
+ * Event dispatched when a block module is hot-reloaded.
+ */
+export const BLOCK_UPDATE_EVENT = "wordpress:block-update";
+
+/**
+ * Server event sent when the base `theme.json` changes during development.
+ */
+export const THEME_JSON_UPDATE_EVENT = "wordpress:theme-json-update";
+
 /**
  * CSS-wide keywords to exclude from theme values.
  */
@@ -0,0 +1,159 @@
+import { createHash } from "crypto";
+import type { Rolldown } from "vite";
+import type { ScriptModuleDependency } from "../types.js";
+
+/**
+ * The parts of an output or rendered chunk that describe the chunk graph.
+ */
+type GraphChunk = Pick<
+    Rolldown.OutputChunk,
+    "type" | "name" | "fileName" | "imports" | "dynamicImports" | "moduleIds"
+>;
+
+/**
+ * Collect the output chunks an entry chunk loads, including itself, shared
+ * chunks it imports and chunks it imports dynamically.
+ */
+export function collectEntryChunks<T extends GraphChunk>(
+    entry: T,
+    bundle: Record<string, T | Rolldown.OutputAsset>,
+): T[] {
+    const chunks = new Map<string, T>();
+    const queue = [entry];
+
+    while (queue.length) {
+        const chunk = queue.shift()!;
+        if (chunks.has(chunk.fileName)) continue;
+
+        chunks.set(chunk.fileName, chunk);
+
+        for (const fileName of [...chunk.imports, ...chunk.dynamicImports]) {
+            const imported = bundle[fileName];
+
+            if (imported?.type === "chunk") {
+                queue.push(imported);
+            }
+        }
+    }
+
+    return [...chunks.values()];
+}
+
+/**
+ * Collect the script handles required by every module an entry chunk loads,
+ * sorted so manifests stay stable between builds.
+ */
+export function collectEntryDependencies(
+    entry: Rolldown.OutputChunk,
+    bundle: Rolldown.OutputBundle,
+    moduleDependencies: Map<string, Set<string>>,
+): string[] {
+    const handles = new Set<string>();
+
+    for (const chunk of collectEntryChunks(entry, bundle)) {
+        for (const moduleId of chunk.moduleIds) {
+            for (const handle of moduleDependencies.get(moduleId) ?? []) {
+                handles.add(handle);
+            }
+        }
+    }
+
+    return [...handles].sort();
+}
+
+/**
+ * Collect the script modules imported by every module an entry chunk loads.
+ * Modules in chunks only reachable through `import()` are dynamic
+ * dependencies, and a static import of a module wins over a dynamic one.
+ */
+export function collectEntryModuleDependencies<T extends GraphChunk>(
+    entry: T,
+    bundle: Record<string, T | Rolldown.OutputAsset>,
+    moduleImports: Map<string, Map<string, ScriptModuleDependency["import"]>>,
+): ScriptModuleDependency[] {
+    const staticChunks = new Set<string>();
+    const queue = [entry];
+
+    while (queue.length) {
+        const chunk = queue.shift()!;
+        if (staticChunks.has(chunk.fileName)) continue;
+
+        staticChunks.add(chunk.fileName);
+
+        for (const fileName of chunk.imports) {
+            const imported = bundle[fileName];
+
+            if (imported?.type === "chunk") {
+                queue.push(imported);
+            }
+        }
+    }
+
+    const dependencies = new Map<string, ScriptModuleDependency["import"]>();
+
+    for (const chunk of collectEntryChunks(entry, bundle)) {
+        const isStaticChunk = staticChunks.has(chunk.fileName);
+
+        for (const moduleId of chunk.moduleIds) {
+            for (const [id, kind] of moduleImports.get(moduleId) ?? []) {
+                if (dependencies.get(id) === "static") continue;
+
+                dependencies.set(id, isStaticChunk ? kind : "dynamic");
+            }
+        }
+    }
+
+    return [...dependencies.keys()].sort().map((id) => ({ id, import: dependencies.get(id)! }));
+}
+
+/**
+ * Create a content hash version for an entry from the code of every chunk it loads.
+ */
+export function createEntryVersion(
+    entry: Rolldown.OutputChunk,
+    bundle: Rolldown.OutputBundle,
+): string {
+    const hash = createHash("md5");
+
+    for (const chunk of collectEntryChunks(entry, bundle)) {
+        hash.update(chunk.code ?? "");
+    }
+
+    return hash.digest("hex").slice(0, 20);
+}
+
+/**
+ * Get the `.asset.php` file name that sits next to an entry script.
+ */
+export function getAssetPhpFileName(entry: Rolldown.OutputChunk): string {
+    return entry.fileName.replace(/\.[cm]?js$/, "") + ".asset.php";
+}
+
+/**
+ * Serialize a string as a single-quoted PHP string literal.
+ */
+function toPhpString(value: string): string {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Serialize a dependency as a PHP value, using an array for script modules.
+ */
+function toPhpDependency(dependency: string | ScriptModuleDependency): string {
+    if (typeof dependency === "string") return toPhpString(dependency);
+
+    return `['id' => ${toPhpString(dependency.id)}, 'import' => ${toPhpString(dependency.import)}]`;
+}
+
+/**
+ * Generate the contents of an `.asset.php` file, matching the output of
+ * `@wordpress/dependency-extraction-webpack-plugin`.
+ */
+export function createAssetPhp(
+    dependencies: string[] | ScriptModuleDependency[],
+    version: string,
+): string {
+    const handles = dependencies.map(toPhpDependency).join(", ");
+
+    return `<?php return ['dependencies' => [${handles}], 'version' => ${toPhpString(version)}];\n`;
+}
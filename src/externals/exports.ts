@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+import type { ESTree } from "vite";
+import { collectPatternNames, getBindingName, parseModule } from "./transform.js";
+
+const packageExportsCache = new Map<string, string[] | null>();
+
+/**
+ * Collect the names a module exports itself, excluding `export *` re-exports.
+ */
+export function getLocalExportNames(program: ESTree.Program): string[] {
+    const names: string[] = [];
+
+    for (const node of program.body) {
+        if (node.type === "ExportDefaultDeclaration") {
+            names.push("default");
+        } else if (node.type === "ExportAllDeclaration" && node.exported) {
+            names.push(getBindingName(node.exported));
+        } else if (node.type === "ExportNamedDeclaration" && node.exportKind !== "type") {
+            for (const specifier of node.specifiers) {
+                if (specifier.exportKind !== "type") {
+                    names.push(getBindingName(specifier.exported));
+                }
+            }
+
+            const declaration = node.declaration;
+
+            if (declaration?.type === "VariableDeclaration") {
+                for (const declarator of declaration.declarations) {
+                    collectPatternNames(declarator.id, names);
+                }
+            } else if (
+                (declaration?.type === "FunctionDeclaration" ||
+                    declaration?.type === "ClassDeclaration") &&
+                declaration.id
+            ) {
+                names.push(declaration.id.name);
+            }
+        }
+    }
+
+    return names;
+}
+
+/**
+ * Resolve a relative module specifier to a file on disk.
+ */
+function resolveRelativeFile(from: string, specifier: string): string | null {
+    const base = path.resolve(path.dirname(from), specifier);
+    const candidates = [base, `${base}.js`, `${base}.mjs`, path.join(base, "index.js")];
+
+    return candidates.find((file) => fs.existsSync(file) && fs.statSync(file).isFile()) ?? null;
+}
+
+/**
+ * Find the `package.json` of an installed package by walking up `node_modules`.
+ */
+function findPackageJson(request: string, root: string): string | null {
+    let dir = path.resolve(root);
+
+    while (true) {
+        const packageJsonPath = path.join(dir, "node_modules", request, "package.json");
+
+        if (fs.existsSync(packageJsonPath)) return packageJsonPath;
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Determine if a package is installed and can be bundled.
+ */
+export function isPackageInstalled(request: string, root: string): boolean {
+    return findPackageJson(request, root) !== null;
+}
+
+/**
+ * Find the ES module entry of an installed package.
+ */
+function findPackageEntry(request: string, root: string): string | null {
+    const packageJsonPath = findPackageJson(request, root);
+    if (!packageJsonPath) return null;
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    const entry = packageJson.module;
+
+    if (typeof entry !== "string") return null;
+
+    return resolveRelativeFile(packageJsonPath, `./${entry.replace(/^\.\//, "")}`);
+}
+
+/**
+ * Collect every export name of a module file, following `export *` re-exports.
+ */
+function collectFileExports(file: string, root: string, seen: Set<string>): string[] | null {
+    if (seen.has(file)) return [];
+    seen.add(file);
+
+    const { program, errors } = parseModule(fs.readFileSync(file, "utf8"), file);
+    if (errors.length) return null;
+
+    const names = getLocalExportNames(program);
+
+    for (const node of program.body) {
+        if (node.type !== "ExportAllDeclaration" || node.exported) continue;
+
+        const source = node.source.value;
+        let starNames: string[] | null = null;
+
+        if (source.startsWith(".")) {
+            const target = resolveRelativeFile(file, source);
+            starNames = target ? collectFileExports(target, root, seen) : null;
+        } else {
+            starNames = getPackageExports(source, root);
+        }
+
+        if (!starNames) return null;
+
+        names.push(...starNames.filter((name) => name !== "default"));
+    }
+
+    return [...new Set(names)];
+}
+
+/**
+ * Read the export names of an installed package from its ES module build.
+ * Returns `null` when the package or its exports cannot be determined.
+ */
+export function getPackageExports(request: string, root: string): string[] | null {
+    const key = `${root}\0${request}`;
+
+    if (!packageExportsCache.has(key)) {
+        const entry = findPackageEntry(request, root);
+
+        packageExportsCache.set(key, entry ? collectFileExports(entry, root, new Set()) : null);
+    }
+
+    return packageExportsCache.get(key) ?? null;
+}
+
+/**
+ * Find the named imports or re-exports of a declaration that aren't among
+ * the export names of its source. Default and type-only specifiers are skipped,
+ * as are imports whose local name isn't among `valueReferences` when given.
+ */
+export function findUnknownImports(
+    node: ESTree.ImportDeclaration | ESTree.ExportNamedDeclaration,
+    exportNames: string[],
+    valueReferences?: Set<string>,
+): ESTree.ModuleExportName[] {
+    const requested: ESTree.ModuleExportName[] = [];
+
+    if (node.type === "ImportDeclaration") {
+        if (node.importKind === "type") return [];
+
+        for (const specifier of node.specifiers) {
+            if (
+                specifier.type === "ImportSpecifier" &&
+                specifier.importKind !== "type" &&
+                (!valueReferences || valueReferences.has(specifier.local.name))
+            ) {
+                requested.push(specifier.imported);
+            }
+        }
+    } else if (node.exportKind !== "type") {
+        for (const specifier of node.specifiers) {
+            if (specifier.exportKind !== "type") {
+                requested.push(specifier.local);
+            }
+        }
+    }
+
+    return requested.filter((binding) => {
+        const name = getBindingName(binding);
+
+        return name !== "default" && !exportNames.includes(name);
+    });
+}
@@ -1,54 +1,291 @@
+import { BLOCK_UPDATE_EVENT, HMR_MODULE_ID, THEME_JSON_UPDATE_EVENT } from "../constants.js";
+
+/**
+ * Iframes that receive CSS updates, as a selector, a list of selectors or
+ * a predicate run in the browser.
+ */
+export type HmrIframes = string | string[] | ((iframe: HTMLIFrameElement) => boolean);
+
 /**
- * Generate the HMR snippet for CSS hot-reloading in the editor iframe.
+ * Generate the source of a browser-side function matching HMR iframes.
+ * Predicates written as object methods are turned into function expressions.
  */
-export function createHmrCode(iframeName: string): string {
-    return `
+function createIframeFilter(iframes: HmrIframes): string {
+    if (typeof iframes === "function") {
+        const source = iframes.toString();
+
+        if (/^(?:async\s+)?(?:function\b|\(|[\w$]+\s*=>)/.test(source)) return `(${source})`;
+
+        const method = source.match(/^(async\s+)?([\w$]+\s*\([\s\S]*)$/);
+
+        if (method) return `(${method[1] ?? ""}function ${method[2]})`;
+
+        throw new Error(
+            "The hmr.iframes predicate must be a function, an arrow function or a method " +
+                `with a plain name, but got: ${source}`,
+        );
+    }
+
+    const selector = Array.isArray(iframes) ? iframes.join(", ") : iframes;
+
+    return `(iframe => iframe.matches(${JSON.stringify(selector)}))`;
+}
+
+/**
+ * Generate the editor HMR client module. CSS updates are pushed into every
+ * same-origin editor iframe, and Vite's dev styles are copied into each
+ * matching iframe when it loads, including iframes created after the page
+ * loads. Its hooks let projects extend editor hot-reload behavior.
+ */
+export function createHmrCode(iframes: HmrIframes): string {
+    return `const cssUpdateCallbacks = new Set();
+const blockUpdateCallbacks = new Set();
+const themeJsonUpdateCallbacks = new Set();
+
+const subscribe = (callbacks, callback) => {
+    callbacks.add(callback);
+
+    return () => {
+        callbacks.delete(callback);
+    };
+};
+
+export const onCssUpdate = callback => subscribe(cssUpdateCallbacks, callback);
+export const onBlockUpdate = callback => subscribe(blockUpdateCallbacks, callback);
+export const onThemeJsonUpdate = callback => subscribe(themeJsonUpdateCallbacks, callback);
+
 if (import.meta.hot) {
-    import.meta.hot.on('vite:beforeUpdate', ({ updates }) => {
-        const editorIframe = document.querySelector('iframe[name="${iframeName}"]');
-        const editor = editorIframe?.contentDocument;
+    const matchesIframe = ${createIframeFilter(iframes)};
+    const devOrigin = new URL(import.meta.url).origin;
+
+    // Cross-origin iframes have no content document.
+    const getEditors = () => [...document.querySelectorAll('iframe')]
+        .filter(iframe => matchesIframe(iframe))
+        .map(iframe => iframe.contentDocument)
+        .filter(editor => editor?.head);
+
+    const syncStyles = editor => {
+        document.querySelectorAll('style[data-vite-dev-id]').forEach(style => {
+            const id = style.getAttribute('data-vite-dev-id');
+            let copy = [...editor.querySelectorAll('style[data-vite-dev-id]')]
+                .find(element => element.getAttribute('data-vite-dev-id') === id);
 
-        if (!editor) {
+            if (!copy) {
+                copy = editor.createElement('style');
+                copy.setAttribute('type', 'text/css');
+                copy.setAttribute('data-vite-dev-id', id);
+                editor.head.appendChild(copy);
+            }
+
+            if (copy.textContent !== style.textContent) {
+                copy.textContent = style.textContent;
+            }
+        });
+
+        const links = [...editor.querySelectorAll('link[rel="stylesheet"]')]
+            .map(link => link.href.split('?')[0]);
+
+        document.querySelectorAll('link[rel="stylesheet"]').forEach(link => {
+            if (!link.href.startsWith(devOrigin) || links.includes(link.href.split('?')[0])) {
+                return;
+            }
+
+            editor.head.appendChild(link.cloneNode());
+        });
+    };
+
+    const watchIframe = iframe => {
+        if (iframe.__wpDevStyles || !matchesIframe(iframe)) {
             return;
         }
 
-        updates.forEach(({ path, type }) => {
+        iframe.__wpDevStyles = true;
+
+        const inject = () => {
+            if (iframe.contentDocument?.head) {
+                syncStyles(iframe.contentDocument);
+            }
+        };
+
+        iframe.addEventListener('load', inject);
+        inject();
+    };
+
+    document.querySelectorAll('iframe').forEach(watchIframe);
+
+    new MutationObserver(mutations => {
+        mutations.forEach(({ addedNodes }) => {
+            addedNodes.forEach(node => {
+                if (node.nodeName === 'IFRAME') {
+                    watchIframe(node);
+                }
+
+                node.querySelectorAll?.('iframe').forEach(watchIframe);
+            });
+        });
+    }).observe(document.documentElement, { childList: true, subtree: true });
+
+    // Vite updates its dev styles in place, so copy the new contents over.
+    import.meta.hot.on('vite:afterUpdate', () => {
+        getEditors().forEach(syncStyles);
+    });
+
+    import.meta.hot.on('vite:beforeUpdate', ({ updates }) => {
+        const editors = getEditors();
+
+        updates.forEach(({ path, type, timestamp }) => {
             if (type !== 'css-update') {
                 return;
             }
 
             const key = path.split('?')[0];
 
-            editor.querySelectorAll('link[rel="stylesheet"]').forEach(link => {
-                if (!link.href.includes(key)) {
-                    return;
-                }
+            editors.forEach(editor => {
+                editor.querySelectorAll('link[rel="stylesheet"]').forEach(link => {
+                    if (!link.href.includes(key)) {
+                        return;
+                    }
 
-                const updated = link.href.split('?')[0] + '?direct&t=' + Date.now();
+                    const updated = link.href.split('?')[0] + '?direct&t=' + Date.now();
 
-                link.href = updated;
-            });
+                    link.href = updated;
+                });
 
-            editor.querySelectorAll('style').forEach(style => {
-                if (!style.textContent.includes(key)) {
-                    return;
-                }
+                // Stylesheets pulled in with \`@import\` are re-imported through the CSSOM.
+                editor.querySelectorAll('style').forEach(({ sheet }) => {
+                    [...(sheet?.cssRules ?? [])].forEach((rule, index) => {
+                        if (!(rule instanceof editor.defaultView.CSSImportRule)) {
+                            return;
+                        }
+
+                        const url = new URL(rule.href, editor.baseURI);
+
+                        if (!url.pathname.includes(key)) {
+                            return;
+                        }
 
-                const importRegex = new RegExp(\`(@import\\\\s*(?:url\\\\(['"]?|['"]))(.*?\${key}[^'"\\\\)]*?)(?:\\\\?[^'"\\\\)]*)?(['"]?\\\\))\`, 'g');
+                        url.search = '?direct&t=' + Date.now();
 
-                style.textContent = style.textContent.replace(importRegex, (_, prefix, importPath, suffix) => {
-                    const updated = importPath.split('?')[0];
+                        const media = rule.media.mediaText;
 
-                    return prefix + updated + '?direct&t=' + Date.now() + suffix;
+                        sheet.deleteRule(index);
+                        sheet.insertRule('@import url(' + JSON.stringify(url.href) + ')' + (media ? ' ' + media : '') + ';', index);
+                    });
                 });
             });
+
+            cssUpdateCallbacks.forEach(callback => callback({ path, timestamp, documents: editors }));
         });
     });
+
+    window.addEventListener(${JSON.stringify(BLOCK_UPDATE_EVENT)}, ({ detail }) => {
+        blockUpdateCallbacks.forEach(callback => callback(detail));
+    });
+
+    import.meta.hot.on(${JSON.stringify(THEME_JSON_UPDATE_EVENT)}, data => {
+        themeJsonUpdateCallbacks.forEach(callback => callback(data));
+    });
+}
+`;
+}
+
+/**
+ * Generate the editor HMR client module for builds, where its hooks never fire.
+ */
+export function createHmrStubCode(): string {
+    return [
+        "const subscribe = () => () => {};",
+        "export const onCssUpdate = subscribe;",
+        "export const onBlockUpdate = subscribe;",
+        "export const onThemeJsonUpdate = subscribe;",
+    ].join("\n");
+}
+
+/**
+ * Generate the code that makes a block module hot-reloadable. The prelude
+ * unregisters the blocks the previous version of the module registered,
+ * so they're registered again with their new settings when it re-runs,
+ * and the epilogue announces the re-registered blocks to the HMR client.
+ * Only blocks registered while the module is evaluated are tracked.
+ */
+export function createBlockHmrCode(blocksGlobal: string): { prelude: string; epilogue: string } {
+    const prelude = `const __wp_hmr_blocks = (() => {
+    if (!import.meta.hot) {
+        return [];
+    }
+
+    (import.meta.hot.data.blocks ?? []).forEach(name => ${blocksGlobal}.unregisterBlockType(name));
+
+    return ${blocksGlobal}.getBlockTypes().map(({ name }) => name);
+})();
+`;
+
+    const epilogue = `
+if (import.meta.hot) {
+    const blocks = ${blocksGlobal}.getBlockTypes()
+        .map(({ name }) => name)
+        .filter(name => !__wp_hmr_blocks.includes(name));
+
+    if (import.meta.hot.data.blocks) {
+        window.dispatchEvent(new CustomEvent(${JSON.stringify(BLOCK_UPDATE_EVENT)}, { detail: { blocks } }));
+    }
+
+    import.meta.hot.dispose(data => {
+        data.blocks = blocks;
+    });
+
+    import.meta.hot.accept();
+}`;
+
+    return { prelude, epilogue };
+}
+
+/**
+ * Generate the React Fast Refresh code for a component module, backed by
+ * the `ReactRefreshRuntime` global WordPress loads with `SCRIPT_DEBUG`.
+ * The prelude declares the hoisted registration functions the JSX refresh
+ * transform calls, and the epilogue refreshes modules that only export
+ * components in place, passing other updates on to their importers.
+ */
+export function createRefreshCode(id: string): { prelude: string; epilogue: string } {
+    const prelude = `function $RefreshReg$(type, name) {
+    if (import.meta.hot && window.ReactRefreshRuntime) {
+        window.ReactRefreshRuntime.register(type, ${JSON.stringify(id)} + ' ' + name);
+    }
+}
+
+function $RefreshSig$() {
+    return import.meta.hot && window.ReactRefreshRuntime
+        ? window.ReactRefreshRuntime.createSignatureFunctionForTransform()
+        : type => type;
+}
+`;
+
+    const epilogue = `
+if (import.meta.hot) {
+    import.meta.hot.accept(nextExports => {
+        if (!nextExports) {
+            return;
+        }
+
+        const runtime = window.ReactRefreshRuntime;
+        const exports = Object.values(nextExports);
+
+        if (!runtime || !exports.length || !exports.every(value => runtime.isLikelyComponentType(value))) {
+            import.meta.hot.invalidate('Could not Fast Refresh: not every export is a React component.');
+            return;
+        }
+
+        clearTimeout(window.__wpRefreshTimeout);
+        window.__wpRefreshTimeout = setTimeout(() => runtime.performReactRefresh(), 30);
+    });
 }`;
+
+    return { prelude, epilogue };
 }
 
 /**
- * Determine whether HMR code should be injected into the given module.
+ * Determine whether the HMR client should be imported by the given module.
  */
 export function shouldInjectHmr(
     code: string,
@@ -56,7 +293,7 @@ export function shouldInjectHmr(
     config: { enabled: boolean; editorPattern: string | RegExp },
 ): boolean {
     if (!config.enabled) return false;
-    if (code.includes("vite:beforeUpdate")) return false;
+    if (code.includes(HMR_MODULE_ID)) return false;
 
     if (typeof config.editorPattern === "string") {
         return id.includes(config.editorPattern);
@@ -2,12 +2,70 @@ import {
     defaultRequestToExternal,
     defaultRequestToHandle,
 } from "@wordpress/dependency-extraction-webpack-plugin/lib/util";
-import type { Plugin as VitePlugin, Rolldown } from "vite";
-import type { WordPressPluginConfig } from "../types.js";
-import { SUPPORTED_EXTENSIONS } from "../constants.js";
-import { isExemptPackage } from "../utils.js";
-import { resolveImport } from "./transform.js";
-import { createHmrCode, shouldInjectHmr } from "./hmr.js";
+import MagicString from "magic-string";
+import type { ESTree, Plugin as VitePlugin, ResolvedConfig, Rolldown } from "vite";
+import type {
+    ExternalMapping,
+    ScriptModuleDependency,
+    VendorExternal,
+    WordPressPluginConfig,
+} from "../types.js";
+import {
+    HMR_MODULE_ID,
+    JSX_RUNTIME_ID,
+    POLYFILL_GLOBALS,
+    RESOLVED_HMR_MODULE_ID,
+    STYLE_PLACEHOLDER_PREFIX,
+    SUPPORTED_EXTENSIONS,
+} from "../constants.js";
+import {
+    getLocation,
+    getStyleHandle,
+    getVendorExternal,
+    isAvailableInWordPress,
+    isClassicScriptModule,
+    isExemptPackage,
+    isScriptModule,
+} from "../utils.js";
+import {
+    findDynamicImports,
+    findGlobalReferences,
+    findValueReferences,
+    getBindingName,
+    getTopLevelBindings,
+    importsBlockRegistration,
+    isStarReExport,
+    isTypeOnlyImport,
+    isTypeScript,
+    parseModule,
+    resolveDynamicImport,
+    resolveImport,
+    resolveReExport,
+} from "./transform.js";
+import {
+    findUnknownImports,
+    getLocalExportNames,
+    getPackageExports,
+    isPackageInstalled,
+} from "./exports.js";
+import { camelCase, resolveMapping } from "./mappings.js";
+import { resolvePresets } from "./presets.js";
+import {
+    collectEntryChunks,
+    collectEntryDependencies,
+    collectEntryModuleDependencies,
+    createAssetPhp,
+    createEntryVersion,
+    getAssetPhpFileName,
+} from "./dependencies.js";
+import {
+    createBlockHmrCode,
+    createHmrCode,
+    createHmrStubCode,
+    createRefreshCode,
+    shouldInjectHmr,
+} from "./hmr.js";
+import { findStyleImports, isStylesheet, STYLE_EXTENSIONS } from "./styles.js";
 
 /**
  * Transform WordPress imports into global references and
@@ -15,143 +73,731 @@ import { createHmrCode, shouldInjectHmr } from "./hmr.js";
  */
 export function wordpressPlugin(config: WordPressPluginConfig = {}): VitePlugin {
     const extensions = config.extensions ?? SUPPORTED_EXTENSIONS;
-    const externalMappings = config.externalMappings ?? {};
-    const dependencies = new Set<string>();
+    const externalMappings = {
+        ...resolvePresets(config.presets ?? []),
+        ...config.externalMappings,
+    };
+    const outputFormat = config.outputFormat ?? "json";
+    const validateImports = config.validateImports ?? true;
+    const moduleDependencies = new Map<string, Set<string>>();
+    const moduleImports = new Map<string, Map<string, ScriptModuleDependency["import"]>>();
+    const moduleStyles = new Map<string, Set<string>>();
+    const modulePolyfills = new Map<string, Set<string>>();
+    const classicChunkModules = new Set<string>();
+
+    let root = process.cwd();
+    let isServe = false;
+    // Whether every build output is an ES module, the only format script modules use.
+    let isModuleOutput = true;
 
     const hmrConfig = {
         enabled: true,
+        blocks: true,
+        reactRefresh: false,
         editorPattern: /editor/ as string | RegExp,
-        iframeName: "editor-canvas",
         ...config.hmr,
     };
 
-    const hmrCode = createHmrCode(hmrConfig.iframeName);
+    const hmrCode = createHmrCode(
+        hmrConfig.iframes ??
+            (hmrConfig.iframeName ? `iframe[name="${hmrConfig.iframeName}"]` : "iframe"),
+    );
+
+    /**
+     * Determine if a request is a script module kept as an ES import,
+     * unless the project bundles it.
+     */
+    const isExternalScriptModule = (id: string): boolean =>
+        isScriptModule(id) && !config.bundle?.includes(id);
+
+    /**
+     * Resolve the global and script handle for an externalized import.
+     */
+    const resolveExternal = (id: string): ExternalMapping | null => {
+        // Stylesheets never map to script globals.
+        if (id.endsWith(".css")) return null;
+
+        const mapping = resolveMapping(id, externalMappings);
+        if (mapping) return mapping;
+
+        let global = config.requestToExternal?.(id);
+
+        if (global === false) return null;
+
+        if (global === undefined) {
+            if (id.startsWith("@wordpress/")) {
+                if (isExemptPackage(id, config)) return null;
+            } else {
+                const vendor = getVendorExternal(id);
+
+                if (!vendor || !isVendorExternalEnabled(vendor)) return null;
+            }
+
+            if (!isAvailableInWordPress(id, config.wpVersion)) return null;
+
+            global = defaultRequestToExternal(id);
+
+            // Packages WordPress bundles by default have no global of their own.
+            if (!global && config.externalize?.includes(id)) {
+                global = ["wp", camelCase(id.slice("@wordpress/".length))];
+            }
+        }
+
+        if (!global) return null;
+
+        const handle = config.requestToHandle?.(id) ?? defaultRequestToHandle(id) ?? id;
+
+        return { global: typeof global === "string" ? [global] : global, handle };
+    };
+
+    /**
+     * Resolve the style handle of a `@wordpress/*` stylesheet core registers,
+     * unless its package is bundled.
+     */
+    const resolveStyleHandle = (id: string): string | null => {
+        const style = getStyleHandle(id);
+        if (!style) return null;
+
+        if (isExemptPackage(style.package, config)) return null;
+        if (!isAvailableInWordPress(style.package, config.wpVersion)) return null;
+
+        return style.handle;
+    };
+
+    /**
+     * Determine whether a vendor package should be externalized.
+     */
+    const isVendorExternalEnabled = (vendor: VendorExternal): boolean => {
+        const vendorExternals = config.vendorExternals ?? true;
+
+        if (typeof vendorExternals === "boolean") return vendorExternals;
+
+        return vendorExternals[vendor] ?? true;
+    };
+
+    /**
+     * Determine whether a request is the JSX runtime imported by the automatic
+     * JSX transform, which is served from the `ReactJSXRuntime` global.
+     */
+    const isAutomaticJsxRuntime = (id: string): boolean =>
+        config.jsx === "automatic" &&
+        id === "react/jsx-runtime" &&
+        isVendorExternalEnabled("react/jsx-runtime");
+
+    /**
+     * Determine whether an entry is built as a script module, either because
+     * it matches `scriptModules` or because it imports a package only
+     * available as a script module.
+     */
+    const isScriptModuleEntry = (
+        entry: Pick<Rolldown.OutputChunk, "name">,
+        dependencies: ScriptModuleDependency[],
+    ): boolean => {
+        if (dependencies.some(({ id }) => !isClassicScriptModule(id))) return true;
+
+        const pattern = config.scriptModules;
+        if (!pattern) return false;
+
+        return typeof pattern === "string"
+            ? entry.name.includes(pattern)
+            : pattern.test(entry.name);
+    };
+
+    /**
+     * Determine whether imports of a package are kept until chunks are
+     * rendered, since script modules load it as a module while classic
+     * scripts read its global. Other output formats can't hold script modules.
+     */
+    const defersGlobal = (source: string): boolean =>
+        !isServe && isModuleOutput && isClassicScriptModule(source);
+
+    /**
+     * Determine whether an entry script depends on `wp-polyfill`.
+     */
+    const needsPolyfill = (entry: Rolldown.OutputChunk, bundle: Rolldown.OutputBundle): boolean => {
+        if (config.injectPolyfill === "auto") {
+            return collectEntryDependencies(entry, bundle, modulePolyfills).length > 0;
+        }
+
+        return config.injectPolyfill ?? false;
+    };
+
+    /**
+     * Record a script or style handle required by a module.
+     */
+    const addDependency = (
+        handles: Map<string, Set<string>>,
+        moduleId: string,
+        handle: string,
+    ): void => {
+        const dependencies = handles.get(moduleId) ?? new Set<string>();
+
+        dependencies.add(handle);
+        handles.set(moduleId, dependencies);
+    };
 
     return {
         name: "wordpress-plugin",
         enforce: "pre",
 
-        config() {
+        config(_userConfig, env) {
             if (config.jsx === false) return;
+
+            const refresh =
+                env?.command === "serve" && hmrConfig.enabled && hmrConfig.reactRefresh
+                    ? { refresh: true }
+                    : {};
+
+            if (config.jsx === "automatic") {
+                if (!isAvailableInWordPress("react/jsx-runtime", config.wpVersion)) {
+                    throw new Error(
+                        `The automatic JSX runtime requires WordPress 6.6 or later, ` +
+                            `but wpVersion is ${config.wpVersion}. Use the classic runtime instead.`,
+                    );
+                }
+
+                return {
+                    oxc: {
+                        jsx: {
+                            runtime: "automatic" as const,
+                            importSource: "react",
+                            // WordPress only ships the production runtime.
+                            development: false,
+                            ...refresh,
+                        },
+                    },
+                };
+            }
+
             return {
                 oxc: {
                     jsx: {
                         runtime: "classic" as const,
                         pragma: config.jsxFactory ?? "wp.element.createElement",
                         pragmaFrag: config.jsxFragment ?? "wp.element.Fragment",
+                        ...refresh,
                     },
                 },
             };
         },
 
+        configResolved(resolvedConfig: ResolvedConfig) {
+            root = resolvedConfig?.root ?? process.cwd();
+            isServe = resolvedConfig?.command === "serve";
+
+            const build = resolvedConfig?.build;
+            const outputs = [build?.rolldownOptions?.output ?? {}].flat();
+            const formats = build?.lib
+                ? (build.lib.formats ?? ["es", "umd"])
+                : outputs.map((output) => output.format ?? "es");
+
+            isModuleOutput = formats.every(
+                (format) => format === "es" || format === "esm" || format === "module",
+            );
+        },
+
+        buildStart() {
+            moduleDependencies.clear();
+            moduleImports.clear();
+            moduleStyles.clear();
+            modulePolyfills.clear();
+            classicChunkModules.clear();
+        },
+
         options(opts: Rolldown.InputOptions) {
             return {
                 ...opts,
                 external: (id: string): boolean => {
                     if (typeof id !== "string") return false;
 
-                    if (id in externalMappings) {
-                        return true;
-                    }
+                    if (isExternalScriptModule(id)) return true;
 
-                    return id.startsWith("@wordpress/") && !isExemptPackage(id);
+                    return !isAutomaticJsxRuntime(id) && resolveExternal(id) !== null;
                 },
             };
         },
 
-        resolveId(id: string) {
-            if (id in externalMappings) {
-                const mapping = externalMappings[id];
-                dependencies.add(mapping.handle);
+        resolveId(id: string, importer?: string) {
+            if (id === HMR_MODULE_ID) {
+                return RESOLVED_HMR_MODULE_ID;
+            }
+
+            if (isAutomaticJsxRuntime(id)) {
+                return JSX_RUNTIME_ID;
+            }
+
+            if (isExternalScriptModule(id)) {
                 return { id, external: true };
             }
 
-            if (!id?.startsWith("@wordpress/") || isExemptPackage(id)) return null;
+            const style = resolveStyleHandle(id);
 
-            const [external, handle] = [defaultRequestToExternal(id), defaultRequestToHandle(id)];
+            if (style) {
+                if (importer) {
+                    addDependency(moduleStyles, importer, style);
+                }
 
-            if (!external || !handle) return null;
+                return `${STYLE_PLACEHOLDER_PREFIX}${id}`;
+            }
 
-            dependencies.add(handle);
+            const external = resolveExternal(id);
+
+            if (!external) {
+                if (
+                    !isAvailableInWordPress(id, config.wpVersion) &&
+                    !isPackageInstalled(id, root)
+                ) {
+                    this.error(
+                        `"${id}" is not available in WordPress ${config.wpVersion} and is not installed, ` +
+                            `so it can't be bundled. Install it or raise wpVersion.`,
+                    );
+                }
+
+                return null;
+            }
+
+            if (importer) {
+                addDependency(moduleDependencies, importer, external.handle);
+            }
 
             return { id, external: true };
         },
 
+        load(id: string) {
+            if (id === RESOLVED_HMR_MODULE_ID) {
+                return isServe && hmrConfig.enabled ? hmrCode : createHmrStubCode();
+            }
+
+            // Stylesheets core already registers are dropped from the bundle.
+            if (id.startsWith(STYLE_PLACEHOLDER_PREFIX)) return "";
+
+            if (id !== JSX_RUNTIME_ID) return null;
+
+            addDependency(moduleDependencies, id, "react-jsx-runtime");
+
+            return [
+                "const runtime = window.ReactJSXRuntime;",
+                "export const jsx = runtime.jsx;",
+                "export const jsxs = runtime.jsxs;",
+                "export const Fragment = runtime.Fragment;",
+            ].join("\n");
+        },
+
         transform(code: string, id: string) {
             const cleanId = id.split("?")[0];
+
+            if (STYLE_EXTENSIONS.some((ext) => cleanId.endsWith(ext))) {
+                const s = new MagicString(code);
+                const styles = new Set<string>();
+
+                moduleStyles.set(id, styles);
+
+                for (const { start, end, source } of findStyleImports(code)) {
+                    const handle = resolveStyleHandle(source);
+                    if (!handle) continue;
+
+                    styles.add(handle);
+                    s.remove(start, end);
+                }
+
+                if (!styles.size) return null;
+
+                return {
+                    code: s.toString(),
+                    map: s.generateMap({ hires: true, source: cleanId, includeContent: true }),
+                };
+            }
+
             if (!extensions.some((ext) => cleanId.endsWith(ext))) return null;
 
-            let transformedCode = code;
+            const { program, errors } = parseModule(code, cleanId);
 
-            // Handle custom external mappings
-            for (const [packageName, mapping] of Object.entries(externalMappings)) {
-                const customImportRegex = new RegExp(
-                    `^[\\s\\n]*import[\\s\\n]+(?:([^;'"]+?)[\\s\\n]+from[\\s\\n]+)?['"]${packageName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}['"][\\s\\n]*;?`,
-                    "gm",
-                );
-                let match;
+            // Skipping the module would leave its WordPress imports as bare imports.
+            if (errors.length) {
+                const [error] = errors;
+                const { line, column } = getLocation(code, error.labels[0]?.start ?? 0);
+
+                this.error(`Failed to parse ${cleanId}:${line}:${column + 1}: ${error.message}`);
+            }
+
+            const s = new MagicString(code);
+            const dependencies = new Set<string>();
+
+            const scriptModules = new Map<string, ScriptModuleDependency["import"]>();
+
+            moduleDependencies.set(id, dependencies);
+            moduleImports.set(id, scriptModules);
+
+            if (config.injectPolyfill === "auto") {
+                modulePolyfills.set(id, findGlobalReferences(program, POLYFILL_GLOBALS));
+            }
 
-                while ((match = customImportRegex.exec(code)) !== null) {
-                    const [fullMatch, imports] = match;
-                    dependencies.add(mapping.handle);
+            const localExports = getLocalExportNames(program);
 
-                    const replacement = resolveImport(imports, mapping.global);
+            // Export names of each externalized package the module re-exports with `export *`.
+            const starExports = new Map<string, string[] | null>();
+
+            for (const node of program.body) {
+                if (!isStarReExport(node)) continue;
+
+                const source = node.source.value;
+
+                if (
+                    !starExports.has(source) &&
+                    !isExternalScriptModule(source) &&
+                    resolveExternal(source)
+                ) {
+                    starExports.set(source, getPackageExports(source, root));
+                }
+            }
+
+            // Names several `export *` sources provide are ambiguous and never exported.
+            const starNameSources = [...starExports.values()].flatMap((names) => names ?? []);
+            const ambiguousStarNames = new Set(
+                starNameSources.filter((name, index) => starNameSources.indexOf(name) !== index),
+            );
+            const starReExported = new Set<string>();
+            let blocksGlobal: string | null = null;
+
+            // TypeScript imports types without `type` modifiers, so only bindings used as values count.
+            const valueReferences = isTypeScript(cleanId)
+                ? findValueReferences(program)
+                : undefined;
+
+            /**
+             * Report named imports the installed package doesn't export,
+             * which would otherwise resolve to `undefined` at runtime.
+             */
+            const checkImports = (
+                node: ESTree.ImportDeclaration | ESTree.ExportNamedDeclaration,
+                source: string,
+            ): void => {
+                if (!validateImports) return;
+
+                const exportNames = getPackageExports(source, root);
+                if (!exportNames) return;
+
+                for (const binding of findUnknownImports(node, exportNames, valueReferences)) {
+                    const { line, column } = getLocation(code, binding.start);
+                    const message =
+                        `"${getBindingName(binding)}" is not exported by "${source}" ` +
+                        `(${cleanId}:${line}:${column + 1}).`;
+
+                    if (validateImports === "strict") {
+                        this.error(message);
+                    }
+
+                    this.warn(message);
+                }
+            };
+
+            for (const node of program.body) {
+                if (node.type === "ImportDeclaration") {
+                    if (isExternalScriptModule(node.source.value)) {
+                        if (!isTypeOnlyImport(node)) {
+                            scriptModules.set(node.source.value, "static");
+                        }
+
+                        continue;
+                    }
+
+                    const external = resolveExternal(node.source.value);
+                    if (!external) continue;
+
+                    if (isTypeOnlyImport(node, valueReferences)) {
+                        s.remove(node.start, node.end);
+                        continue;
+                    }
+
+                    checkImports(node, node.source.value);
+                    dependencies.add(external.handle);
+
+                    // Kept until chunks are rendered, when it's known whether script modules load it.
+                    if (defersGlobal(node.source.value)) {
+                        scriptModules.set(node.source.value, "dynamic");
+                        continue;
+                    }
+
+                    if (
+                        node.source.value === "@wordpress/blocks" &&
+                        importsBlockRegistration(node)
+                    ) {
+                        blocksGlobal = external.global.join(".");
+                    }
+
+                    const replacement = resolveImport(
+                        node.specifiers.filter(
+                            ({ local }) => !valueReferences || valueReferences.has(local.name),
+                        ),
+                        external.global,
+                    );
 
                     if (replacement) {
-                        transformedCode = transformedCode.replace(fullMatch, replacement);
+                        s.overwrite(node.start, node.end, replacement);
                     } else {
-                        transformedCode = transformedCode.replace(fullMatch, "");
+                        s.remove(node.start, node.end);
                     }
+
+                    continue;
                 }
+
+                if (
+                    node.type !== "ExportAllDeclaration" &&
+                    node.type !== "ExportNamedDeclaration"
+                ) {
+                    continue;
+                }
+
+                if (!node.source) continue;
+
+                const source = node.source.value;
+
+                if (isExternalScriptModule(source)) {
+                    if (node.exportKind !== "type") {
+                        scriptModules.set(source, "static");
+                    }
+
+                    continue;
+                }
+
+                const external = resolveExternal(source);
+                if (!external) continue;
+
+                let starNames: string[] = [];
+
+                if (isStarReExport(node)) {
+                    const names = starExports.get(source);
+
+                    if (!names) {
+                        this.warn(
+                            `Unable to determine the exports of "${source}" to re-export from its global. ` +
+                                `Install the package or use named re-exports instead.`,
+                        );
+                        continue;
+                    }
+
+                    starNames = names.filter(
+                        (name) =>
+                            !localExports.includes(name) &&
+                            !ambiguousStarNames.has(name) &&
+                            !starReExported.has(name),
+                    );
+
+                    starNames.forEach((name) => starReExported.add(name));
+                }
+
+                if (node.type === "ExportNamedDeclaration") {
+                    checkImports(node, source);
+                }
+
+                const replacement = resolveReExport(node, external.global, starNames);
+
+                if (!replacement) {
+                    s.remove(node.start, node.end);
+                    continue;
+                }
+
+                dependencies.add(external.handle);
+                s.overwrite(node.start, node.end, replacement);
             }
 
-            // Handle WordPress imports
-            const importRegex =
-                /^[\s\n]*import[\s\n]+(?:([^;'"]+?)[\s\n]+from[\s\n]+)?['"]@wordpress\/([^'"]+)['"][\s\n]*;?/gm;
+            const bindings = getTopLevelBindings(program);
 
-            let match;
+            for (const { node, source } of findDynamicImports(program)) {
+                if (isExternalScriptModule(source)) {
+                    if (!scriptModules.has(source)) {
+                        scriptModules.set(source, "dynamic");
+                    }
 
-            while ((match = importRegex.exec(code)) !== null) {
-                const [fullMatch, imports, pkg] = match;
+                    continue;
+                }
+
+                const external = resolveExternal(source);
+                if (!external) continue;
 
-                if (isExemptPackage(`@wordpress/${pkg}`)) {
+                dependencies.add(external.handle);
+
+                if (defersGlobal(source)) {
+                    scriptModules.set(source, "dynamic");
                     continue;
                 }
 
-                const external = defaultRequestToExternal(`@wordpress/${pkg}`);
-                const handle = defaultRequestToHandle(`@wordpress/${pkg}`);
+                s.overwrite(node.start, node.end, resolveDynamicImport(external.global, bindings));
+            }
+
+            if (blocksGlobal && isServe && hmrConfig.enabled && hmrConfig.blocks) {
+                const { prelude, epilogue } = createBlockHmrCode(blocksGlobal);
+
+                s.prepend(prelude);
+                s.append(epilogue);
+            }
+
+            // Vite only applies the refresh transform to `.jsx` and `.tsx` modules.
+            if (
+                isServe &&
+                hmrConfig.enabled &&
+                hmrConfig.reactRefresh &&
+                /\.[jt]sx$/.test(cleanId)
+            ) {
+                const { prelude, epilogue } = createRefreshCode(cleanId);
+
+                s.prepend(prelude);
+
+                // Block modules are already re-run by their own hot update.
+                if (!blocksGlobal && localExports.length) {
+                    s.append(epilogue);
+                }
+            }
+
+            if (isServe && shouldInjectHmr(code, id, hmrConfig)) {
+                s.prepend(`import "${HMR_MODULE_ID}";\n`);
+            }
+
+            if (!s.hasChanged()) return null;
+
+            return {
+                code: s.toString(),
+                map: s.generateMap({ hires: true, source: cleanId, includeContent: true }),
+                moduleType: "js",
+            };
+        },
+
+        renderChunk(code, chunk, _options, meta) {
+            const sources = [...chunk.imports, ...chunk.dynamicImports].filter(
+                isClassicScriptModule,
+            );
+
+            if (!sources.length) return null;
+
+            const entries = Object.values(meta.chunks).filter(
+                (entry) =>
+                    entry.isEntry &&
+                    collectEntryChunks(entry, meta.chunks).some(
+                        ({ fileName }) => fileName === chunk.fileName,
+                    ),
+            );
+
+            const isScriptModuleChunk =
+                entries.length > 0 &&
+                entries.every((entry) =>
+                    isScriptModuleEntry(
+                        entry,
+                        collectEntryModuleDependencies(entry, meta.chunks, moduleImports),
+                    ),
+                );
+
+            if (isScriptModuleChunk) return null;
+
+            // Classic scripts read packages also shipped as script modules from their global.
+            chunk.moduleIds.forEach((id) => classicChunkModules.add(id));
 
-                if (!external || !handle) continue;
+            const { program } = parseModule(code, chunk.fileName);
+            const s = new MagicString(code);
 
-                dependencies.add(handle);
+            for (const node of program.body) {
+                if (node.type !== "ImportDeclaration") continue;
 
-                const replacement = resolveImport(imports, external);
+                const external = sources.includes(node.source.value)
+                    ? resolveExternal(node.source.value)
+                    : null;
+
+                if (!external) continue;
+
+                const replacement = resolveImport(node.specifiers, external.global);
 
                 if (replacement) {
-                    transformedCode = transformedCode.replace(fullMatch, replacement);
+                    s.overwrite(node.start, node.end, replacement);
                 } else {
-                    transformedCode = transformedCode.replace(fullMatch, "");
+                    s.remove(node.start, node.end);
                 }
             }
 
-            if (shouldInjectHmr(transformedCode, id, hmrConfig)) {
-                transformedCode = `${transformedCode}\n${hmrCode}`;
+            const bindings = getTopLevelBindings(program);
+
+            for (const { node, source } of findDynamicImports(program)) {
+                const external = sources.includes(source) ? resolveExternal(source) : null;
+
+                if (external) {
+                    s.overwrite(
+                        node.start,
+                        node.end,
+                        resolveDynamicImport(external.global, bindings),
+                    );
+                }
             }
 
+            if (!s.hasChanged()) return null;
+
             return {
-                code: transformedCode,
-                map: null,
-                moduleType: "js",
+                code: s.toString(),
+                map: s.generateMap({ hires: true }),
             };
         },
 
-        generateBundle() {
-            this.emitFile({
-                type: "asset",
-                name: "editor.deps.json",
-                originalFileName: "editor.deps.json",
-                source: JSON.stringify([...dependencies], null, 2),
-            });
+        generateBundle(_options, bundle) {
+            for (const chunk of Object.values(bundle)) {
+                if (chunk.type !== "chunk" || !chunk.isEntry) continue;
+
+                // Stylesheet entries get an empty placeholder script that is never written.
+                if (chunk.facadeModuleId && isStylesheet(chunk.facadeModuleId)) continue;
+
+                const handles = collectEntryDependencies(chunk, bundle, moduleDependencies);
+                const modules = collectEntryModuleDependencies(chunk, bundle, moduleImports);
+                let dependencies: string[] | ScriptModuleDependency[] = handles;
+
+                if (isScriptModuleEntry(chunk, modules)) {
+                    // Packages also shipped as script modules are declared as module
+                    // dependencies, unless a chunk shared with classic scripts reads the global.
+                    const readsGlobals = collectEntryChunks(chunk, bundle).some((loaded) =>
+                        loaded.moduleIds.some((id) => classicChunkModules.has(id)),
+                    );
+                    const scripts = readsGlobals
+                        ? handles
+                        : handles.filter(
+                              (handle) =>
+                                  !modules.some(({ id }) => resolveExternal(id)?.handle === handle),
+                          );
+
+                    if (scripts.length) {
+                        this.warn(
+                            `Script module "${chunk.name}" uses scripts that cannot be declared as ` +
+                                `script module dependencies and must be enqueued separately: ${scripts.join(", ")}.`,
+                        );
+                    }
+
+                    dependencies = modules;
+                } else if (needsPolyfill(chunk, bundle)) {
+                    dependencies = [...new Set([...handles, "wp-polyfill"])].sort();
+                }
+
+                const styles = collectEntryDependencies(chunk, bundle, moduleStyles);
+
+                if (styles.length) {
+                    this.emitFile({
+                        type: "asset",
+                        name: `${chunk.name}.style-deps.json`,
+                        originalFileName: `${chunk.name}.style-deps.json`,
+                        source: JSON.stringify(styles, null, 2),
+                    });
+                }
+
+                if (outputFormat === "php") {
+                    this.emitFile({
+                        type: "asset",
+                        fileName: getAssetPhpFileName(chunk),
+                        source: createAssetPhp(dependencies, createEntryVersion(chunk, bundle)),
+                    });
+
+                    continue;
+                }
+
+                this.emitFile({
+                    type: "asset",
+                    name: `${chunk.name}.deps.json`,
+                    originalFileName: `${chunk.name}.deps.json`,
+                    source: JSON.stringify(dependencies, null, 2),
+                });
+            }
         },
     };
 }
@@ -0,0 +1,60 @@
+import type { ExternalMapping } from "../types.js";
+
+/**
+ * Convert a dash-delimited package name to camelCase.
+ */
+export function camelCase(name: string): string {
+    return name.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Match a request against an external mapping key. Keys may contain a `*`
+ * wildcard matching a single path segment, and mappings with `subpaths`
+ * also match any deep import under the matched package.
+ *
+ * Returns the matched package name segment, or `null` if it doesn't match.
+ */
+export function matchMappingKey(key: string, id: string, subpaths = false): string | null {
+    const pattern = key
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("([^/]+)");
+
+    const match = new RegExp(`^${pattern}${subpaths ? "(?:/.+)?" : ""}$`).exec(id);
+    if (!match) return null;
+
+    return match[1] ?? key.split("/").pop()!;
+}
+
+/**
+ * Replace `{name}` and `{camelCase}` placeholders with the matched package name.
+ */
+function applyTemplate(value: string, name: string): string {
+    return value.replace(/{name}/g, name).replace(/{camelCase}/g, camelCase(name));
+}
+
+/**
+ * Resolve a request against the configured external mappings. Exact keys
+ * take precedence over wildcard keys, which are tried in declaration order.
+ */
+export function resolveMapping(
+    id: string,
+    mappings: Record<string, ExternalMapping>,
+): ExternalMapping | null {
+    const entries = Object.entries(mappings).sort(
+        ([a], [b]) => Number(a.includes("*")) - Number(b.includes("*")),
+    );
+
+    for (const [key, mapping] of entries) {
+        const name = matchMappingKey(key, id, mapping.subpaths);
+        if (name === null) continue;
+
+        return {
+            ...mapping,
+            global: mapping.global.map((part) => applyTemplate(part, name)),
+            handle: applyTemplate(mapping.handle, name),
+        };
+    }
+
+    return null;
+}
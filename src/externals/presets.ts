@@ -0,0 +1,115 @@
+import type { ExternalMapping } from "../types.js";
+import { camelCase } from "./mappings.js";
+
+/**
+ * WooCommerce packages exposed on the `wc` global, leaving out the build
+ * tooling packages the upstream list includes.
+ *
+ * @see https://github.com/woocommerce/woocommerce/blob/trunk/packages/js/dependency-extraction-webpack-plugin/assets/packages.js
+ */
+const WOOCOMMERCE_PACKAGES = [
+    "admin-layout",
+    "components",
+    "csv-export",
+    "currency",
+    "customer-effort-score",
+    "data",
+    "date",
+    "experimental-products-app",
+    "experimental",
+    "explat",
+    "extend-cart-checkout-block",
+    "settings-ui",
+    "navigation",
+    "notices",
+    "number",
+    "tracks",
+    "remote-logging",
+    "sanitize",
+    "blocks-checkout",
+    "blocks-components",
+    "block-data",
+    "blocks-registry",
+    "price-format",
+    "settings",
+];
+
+/**
+ * WooCommerce packages whose global isn't the camelCased package name.
+ *
+ * @see https://github.com/woocommerce/woocommerce/blob/trunk/packages/js/dependency-extraction-webpack-plugin/src/index.js
+ */
+const WOOCOMMERCE_GLOBALS: Record<string, string> = {
+    "block-data": "wcBlocksData",
+    "blocks-registry": "wcBlocksRegistry",
+    settings: "wcSettings",
+};
+
+/**
+ * WooCommerce packages whose script handle isn't `wc-<name>`.
+ *
+ * @see https://github.com/woocommerce/woocommerce/blob/trunk/packages/js/dependency-extraction-webpack-plugin/src/index.js
+ */
+const WOOCOMMERCE_HANDLES: Record<string, string> = {
+    data: "wc-store-data",
+    "block-data": "wc-blocks-data-store",
+    "csv-export": "wc-csv",
+};
+
+/**
+ * Gravity Forms packages externalized by its own published builds, such as
+ * `dist/js/admin-components.js` of `@gravityforms/components`.
+ *
+ * @see https://github.com/gravityforms/gravitypackages/tree/HEAD/packages/npm/components
+ */
+const GRAVITY_FORMS_EXTERNALS: Record<string, ExternalMapping> = {
+    "@gravityforms/libraries": {
+        global: ["gform", "libraries"],
+        handle: "gform_gravityforms_libraries",
+    },
+    "@gravityforms/react-utils": {
+        global: ["gform", "utils", "react"],
+        handle: "gform_gravityforms_react_utils",
+    },
+    "@gravityforms/utils": {
+        global: ["gform", "utils"],
+        handle: "gform_gravityforms_utils",
+    },
+};
+
+/**
+ * External mappings for popular WordPress plugins that expose globals,
+ * keyed by preset name. Each preset mirrors the externals its plugin
+ * publishes for its own builds.
+ */
+export const EXTERNAL_PRESETS = {
+    woocommerce: Object.fromEntries(
+        WOOCOMMERCE_PACKAGES.map((name) => [
+            `@woocommerce/${name}`,
+            {
+                global: ["wc", WOOCOMMERCE_GLOBALS[name] ?? camelCase(name)],
+                handle: WOOCOMMERCE_HANDLES[name] ?? `wc-${name}`,
+            },
+        ]),
+    ),
+    gravityforms: GRAVITY_FORMS_EXTERNALS,
+} satisfies Record<string, Record<string, ExternalMapping>>;
+
+/**
+ * Expand presets into a single external mappings table. Later presets
+ * override earlier ones for the same key, and unknown names throw.
+ */
+export function resolvePresets(
+    presets: readonly (keyof typeof EXTERNAL_PRESETS)[],
+): Record<string, ExternalMapping> {
+    for (const preset of presets) {
+        if (!Object.prototype.hasOwnProperty.call(EXTERNAL_PRESETS, preset)) {
+            throw new Error(
+                `Unknown external preset "${preset}". ` +
+                    `Available presets: ${Object.keys(EXTERNAL_PRESETS).join(", ")}.`,
+            );
+        }
+    }
+
+    return Object.assign({}, ...presets.map((preset) => EXTERNAL_PRESETS[preset]));
+}
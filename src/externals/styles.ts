@@ -0,0 +1,28 @@
+/**
+ * Stylesheet extensions whose `@import` rules are checked for WordPress styles.
+ */
+export const STYLE_EXTENSIONS = [".css", ".scss", ".sass", ".less"] as const;
+
+const IMPORT_PATTERN = /@import\s+(?:url\(\s*)?(["'])([^"']+)\1\s*\)?[^;]*;[ \t]*\n?/g;
+
+const STYLESHEET_PATTERN = /\.(?:css|less|sass|scss|styl|stylus|pcss|postcss|sss)(?:$|\?)/;
+
+/**
+ * Determine whether a module id is a stylesheet Vite compiles to CSS.
+ */
+export function isStylesheet(id: string): boolean {
+    return STYLESHEET_PATTERN.test(id);
+}
+
+/**
+ * Find the `@import` rules of a stylesheet with the request they import.
+ */
+export function findStyleImports(
+    code: string,
+): Array<{ start: number; end: number; source: string }> {
+    return [...code.matchAll(IMPORT_PATTERN)].map((match) => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        source: match[2],
+    }));
+}
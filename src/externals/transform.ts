@@ -1,56 +1,415 @@
+import { parseSync, Visitor, type ESTree, type VisitorObject } from "vite";
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Determine if a module id is a TypeScript module.
+ */
+export function isTypeScript(id: string): boolean {
+    return id.endsWith(".ts") || id.endsWith(".tsx");
+}
+
+/**
+ * Determine the parser language for a module id.
+ */
+function getLang(id: string): "js" | "jsx" | "ts" | "tsx" {
+    if (isTypeScript(id)) return id.endsWith("x") ? "tsx" : "ts";
+
+    // WordPress projects commonly author JSX in plain `.js` files.
+    return "jsx";
+}
+
 /**
- * Parse named imports from a destructured import statement.
+ * Parse a module into an ESTree program along with its syntax errors.
  */
-function extractNamedImports(imports: string): string[] {
-    const match = imports.match(/{([^}]+)}/);
+export function parseModule(
+    code: string,
+    id: string,
+): Pick<ReturnType<typeof parseSync>, "program" | "errors"> {
+    const { program, errors } = parseSync(id, code, {
+        lang: getLang(id),
+        sourceType: "module",
+    });
+
+    return { program, errors };
+}
+
+/**
+ * Get the name of an exported or imported module binding.
+ */
+export function getBindingName(node: ESTree.ModuleExportName): string {
+    return node.type === "Identifier" ? node.name : String(node.value);
+}
+
+/**
+ * Collect the identifiers bound by a declaration pattern.
+ */
+export function collectPatternNames(pattern: ESTree.BindingPattern | null, names: string[]): void {
+    if (!pattern) return;
+
+    switch (pattern.type) {
+        case "Identifier":
+            names.push(pattern.name);
+            break;
+        case "ObjectPattern":
+            for (const property of pattern.properties) {
+                collectPatternNames(
+                    property.type === "RestElement" ? property.argument : property.value,
+                    names,
+                );
+            }
+            break;
+        case "ArrayPattern":
+            for (const element of pattern.elements) {
+                collectPatternNames(
+                    element?.type === "RestElement" ? element.argument : element,
+                    names,
+                );
+            }
+            break;
+        case "AssignmentPattern":
+            collectPatternNames(pattern.left, names);
+            break;
+    }
+}
+
+/**
+ * Determine whether a specifier only imports a type.
+ */
+function isTypeSpecifier(specifier: ESTree.ImportDeclaration["specifiers"][number]): boolean {
+    return specifier.type === "ImportSpecifier" && specifier.importKind === "type";
+}
+
+/**
+ * Determine whether an import declaration only brings in types and
+ * should be dropped without emitting runtime code or dependencies.
+ * With `valueReferences`, bindings the module never uses as values
+ * count as types too.
+ */
+export function isTypeOnlyImport(
+    node: ESTree.ImportDeclaration,
+    valueReferences?: Set<string>,
+): boolean {
+    if (node.importKind === "type") return true;
+
     return (
-        match?.[1]
-            ?.split(",")
-            .map((s: string) => s.trim())
-            .filter(Boolean) ?? []
+        node.specifiers.length > 0 &&
+        node.specifiers.every(
+            (specifier) =>
+                isTypeSpecifier(specifier) ||
+                (valueReferences && !valueReferences.has(specifier.local.name)),
+        )
     );
 }
 
 /**
- * Transform named imports into global variable assignments.
+ * Determine whether a statement is an `export * from` re-export of values,
+ * whose names must be read from the package.
  */
-function handleNamedReplacement(namedImports: string[], external: string[]): string {
-    const externalPath = external.join(".");
+export function isStarReExport(
+    node: ESTree.Program["body"][number],
+): node is ESTree.ExportAllDeclaration {
+    return node.type === "ExportAllDeclaration" && !node.exported && node.exportKind !== "type";
+}
 
-    return namedImports
-        .map((importStr) => {
-            const parts = importStr.split(" as ").map((s) => s.trim());
-            const name = parts[0];
-            const alias = parts[1] ?? name;
+/**
+ * Determine whether an import declaration brings in `registerBlockType`,
+ * either by name or through a namespace or default import.
+ */
+export function importsBlockRegistration(node: ESTree.ImportDeclaration): boolean {
+    return node.specifiers.some((specifier) => {
+        if (specifier.type !== "ImportSpecifier") return true;
 
-            return `const ${alias} = ${externalPath}.${name};`;
-        })
-        .join("\n");
+        return (
+            specifier.importKind !== "type" &&
+            getBindingName(specifier.imported) === "registerBlockType"
+        );
+    });
 }
 
 /**
- * Resolve an import statement into its global variable replacement.
+ * Build a property access expression on a global path.
  */
-export function resolveImport(imports: string | undefined, globalPath: string[]): string | null {
-    if (!imports) return null;
+function memberAccess(object: string, property: string): string {
+    return IDENTIFIER_PATTERN.test(property)
+        ? `${object}.${property}`
+        : `${object}[${JSON.stringify(property)}]`;
+}
 
-    if (imports.includes("{")) {
-        return handleNamedReplacement(extractNamedImports(imports), globalPath);
-    }
+/**
+ * Resolve the runtime bindings of an import declaration into global variable
+ * assignments. Default imports (and `{ default as x }`) resolve to the global
+ * itself, since WordPress exposes a package's default export as its global.
+ */
+export function resolveImport(
+    specifiers: ESTree.ImportDeclaration["specifiers"],
+    globalPath: string[],
+): string | null {
+    // A binding named after the global (e.g. `import React from 'react'`)
+    // would shadow it, so read it from `globalThis` instead.
+    const shadowed = specifiers.some((specifier) => specifier.local.name === globalPath[0]);
+    const external = (shadowed ? ["globalThis", ...globalPath] : globalPath).join(".");
+
+    const bindings = specifiers
+        .filter((specifier) => !isTypeSpecifier(specifier))
+        .map((specifier) => {
+            const alias = specifier.local.name;
+
+            if (specifier.type !== "ImportSpecifier") {
+                return `const ${alias} = ${external};`;
+            }
 
-    if (imports.includes("*")) {
-        const namespaceAlias = imports.match(/\*\s+as\s+(\w+)/)?.[1];
+            const name = getBindingName(specifier.imported);
 
-        if (namespaceAlias) {
-            return `const ${namespaceAlias} = ${globalPath.join(".")};`;
+            if (name === "default") {
+                return `const ${alias} = ${external};`;
+            }
+
+            return `const ${alias} = ${memberAccess(external, name)};`;
+        });
+
+    return bindings.length ? bindings.join("\n") : null;
+}
+
+/**
+ * Build a local binding name for a re-exported value.
+ */
+function exportBinding(exported: string): string {
+    return `__wp_export_${exported.replace(/[^\w$]/g, "_")}`;
+}
+
+/**
+ * Resolve an `export ... from` re-export into global variable assignments
+ * exported under their original names. `export *` requires the export names
+ * of the package, which are read from its installed ES module build.
+ */
+export function resolveReExport(
+    node: ESTree.ExportNamedDeclaration | ESTree.ExportAllDeclaration,
+    globalPath: string[],
+    starNames: string[] = [],
+): string | null {
+    if (node.exportKind === "type") return null;
+
+    const external = globalPath.join(".");
+    const bindings = new Map<string, string>();
+
+    if (node.type === "ExportAllDeclaration") {
+        if (node.exported) {
+            bindings.set(getBindingName(node.exported), external);
+        } else {
+            for (const name of starNames) {
+                if (name !== "default") {
+                    bindings.set(name, memberAccess(external, name));
+                }
+            }
         }
     } else {
-        const defaultImport = imports.match(/^(\w+)/)?.[1];
+        for (const specifier of node.specifiers) {
+            if (specifier.exportKind === "type") continue;
+
+            const local = getBindingName(specifier.local);
 
-        if (defaultImport) {
-            return `const ${defaultImport} = ${globalPath.join(".")};`;
+            bindings.set(
+                getBindingName(specifier.exported),
+                local === "default" ? external : memberAccess(external, local),
+            );
         }
     }
 
-    return null;
+    if (!bindings.size) return null;
+
+    const declarations = [...bindings].map(
+        ([exported, value]) => `const ${exportBinding(exported)} = ${value};`,
+    );
+
+    const specifiers = [...bindings.keys()].map((exported) => {
+        const name = IDENTIFIER_PATTERN.test(exported) ? exported : JSON.stringify(exported);
+
+        return `${exportBinding(exported)} as ${name}`;
+    });
+
+    return [...declarations, `export { ${specifiers.join(", ")} };`].join("\n");
+}
+
+/**
+ * Find dynamic `import()` calls with a static specifier anywhere in a module.
+ */
+export function findDynamicImports(
+    program: ESTree.Program,
+): { node: ESTree.ImportExpression; source: string }[] {
+    const imports: { node: ESTree.ImportExpression; source: string }[] = [];
+
+    new Visitor({
+        ImportExpression(node) {
+            const { source } = node;
+
+            if (source.type === "Literal" && typeof source.value === "string") {
+                imports.push({ node, source: source.value });
+            } else if (source.type === "TemplateLiteral" && !source.expressions.length) {
+                imports.push({ node, source: source.quasis[0].value.cooked ?? "" });
+            }
+        },
+    }).visit(program);
+
+    return imports;
+}
+
+/**
+ * TypeScript nodes whose identifiers only name types.
+ */
+const TYPE_NODES = [
+    "TSTypeAnnotation",
+    "TSTypeReference",
+    "TSTypeQuery",
+    "TSTypeAliasDeclaration",
+    "TSInterfaceDeclaration",
+    "TSClassImplements",
+] as const;
+
+/**
+ * Create visitor handlers that track whether the visitor is inside one of
+ * the given nodes, which default to TypeScript type positions.
+ */
+function createTypeScope(nodes: readonly string[] = TYPE_NODES): {
+    inType: () => boolean;
+    handlers: VisitorObject;
+} {
+    let depth = 0;
+    const handlers: Record<string, () => void> = {};
+
+    for (const node of nodes) {
+        handlers[node] = () => {
+            depth++;
+        };
+        handlers[`${node}:exit`] = () => {
+            depth--;
+        };
+    }
+
+    return { inType: () => depth > 0, handlers };
+}
+
+/**
+ * Collect the identifiers a module references outside of type positions
+ * and import declarations. TypeScript drops imports only used as types,
+ * so only these need to exist at runtime.
+ */
+export function findValueReferences(program: ESTree.Program): Set<string> {
+    const names = new Set<string>();
+    const scope = createTypeScope([...TYPE_NODES, "ImportDeclaration"]);
+
+    new Visitor({
+        ...scope.handlers,
+        Identifier(node) {
+            if (!scope.inType()) names.add(node.name);
+        },
+        JSXIdentifier(node) {
+            if (!scope.inType()) names.add(node.name);
+        },
+        // The classic JSX runtime compiles elements to `React.createElement`.
+        JSXElement() {
+            names.add("React");
+        },
+        JSXFragment() {
+            names.add("React");
+        },
+    }).visit(program);
+
+    return names;
+}
+
+/**
+ * Find which of the given globals a module references, as bare identifiers
+ * like `Promise` or static members like `Object.assign`. Names the module
+ * declares at its top level shadow the global and aren't reported.
+ */
+export function findGlobalReferences(
+    program: ESTree.Program,
+    globals: readonly string[],
+): Set<string> {
+    const found = new Set<string>();
+    const nonReferences = new Set<ESTree.Node>();
+    const scope = createTypeScope();
+
+    new Visitor({
+        ...scope.handlers,
+        MemberExpression(node) {
+            if (node.computed || node.property.type !== "Identifier") return;
+
+            nonReferences.add(node.property);
+
+            if (node.object.type === "Identifier" && !scope.inType()) {
+                const name = `${node.object.name}.${node.property.name}`;
+
+                if (globals.includes(name)) found.add(name);
+            }
+        },
+        Property(node) {
+            if (!node.computed && !node.shorthand) nonReferences.add(node.key);
+        },
+        MethodDefinition(node) {
+            if (!node.computed) nonReferences.add(node.key);
+        },
+        PropertyDefinition(node) {
+            if (!node.computed) nonReferences.add(node.key);
+        },
+        Identifier(node) {
+            if (!scope.inType() && !nonReferences.has(node) && globals.includes(node.name)) {
+                found.add(node.name);
+            }
+        },
+    }).visit(program);
+
+    for (const name of getTopLevelBindings(program)) {
+        found.delete(name);
+    }
+
+    return found;
+}
+
+/**
+ * Collect the names a module declares at its top level, which shadow
+ * globals of the same name throughout the module.
+ */
+export function getTopLevelBindings(program: ESTree.Program): Set<string> {
+    const names: string[] = [];
+
+    for (const node of program.body) {
+        const declaration =
+            node.type === "ExportNamedDeclaration" || node.type === "ExportDefaultDeclaration"
+                ? node.declaration
+                : node;
+
+        if (declaration?.type === "ImportDeclaration") {
+            declaration.specifiers.forEach(({ local }) => names.push(local.name));
+        } else if (declaration?.type === "VariableDeclaration") {
+            for (const { id } of declaration.declarations) {
+                collectPatternNames(id, names);
+            }
+        } else if (
+            (declaration?.type === "FunctionDeclaration" ||
+                declaration?.type === "ClassDeclaration") &&
+            declaration.id
+        ) {
+            names.push(declaration.id.name);
+        }
+    }
+
+    return new Set(names);
+}
+
+/**
+ * Resolve a dynamic import into a promise of a namespace-shaped object for
+ * its global. Packages with a default export are exposed as the global
+ * itself, so the global also becomes `default`. Globals shadowed by one of
+ * the module's `bindings` are read from `globalThis` instead.
+ */
+export function resolveDynamicImport(
+    globalPath: string[],
+    bindings: Set<string> = new Set(),
+): string {
+    const shadowed = bindings.has(globalPath[0]);
+    const external = (shadowed ? ["globalThis", ...globalPath] : globalPath).join(".");
+
+    return `Promise.resolve({ ...${external}, default: ${external} })`;
 }
@@ -1,3 +1,10 @@
 export { wordpressPlugin } from "./externals/index.js";
+export { EXTERNAL_PRESETS } from "./externals/presets.js";
 export { wordpressThemeJson } from "./theme/index.js";
-export type { WordPressPluginConfig, ThemeJsonConfig, ExternalMapping } from "./types.js";
+export type {
+    WordPressPluginConfig,
+    ThemeJsonConfig,
+    ExternalMapping,
+    ExternalPreset,
+    ScriptModuleDependency,
+} from "./types.js";
@@ -1,8 +1,8 @@
-import type { Plugin as VitePlugin, ResolvedConfig } from "vite";
+import { normalizePath, type Plugin as VitePlugin, type ResolvedConfig } from "vite";
 import fs from "fs";
 import path from "path";
 import type { ThemeJsonConfig, ThemeJson, TailwindConfig } from "../types.js";
-import { CSS_VARIABLE_PATTERNS } from "../constants.js";
+import { CSS_VARIABLE_PATTERNS, THEME_JSON_UPDATE_EVENT } from "../constants.js";
 import { extractThemeContent, extractVariables } from "./css-parser.js";
 import { loadTailwindConfig } from "./tailwind.js";
 import { resolveColors } from "./colors.js";
@@ -62,6 +62,22 @@ export function wordpressThemeJson(config: ThemeJsonConfig = {}): VitePlugin {
             }
         },
 
+        hotUpdate({ file }) {
+            if (
+                this.environment.name !== "client" ||
+                file !== normalizePath(path.resolve(baseThemeJsonPath))
+            ) {
+                return;
+            }
+
+            // The editor reads theme.json on the server, so let the page decide how to refresh.
+            this.environment.hot.send({
+                type: "custom",
+                event: THEME_JSON_UPDATE_EVENT,
+                data: { file: path.relative(rootDir, file) },
+            });
+        },
+
         transform(code: string, id: string) {
             if (id.includes(cssFile)) {
                 cssContent = code;
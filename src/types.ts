@@ -151,24 +151,59 @@ export interface ThemeJsonConfig extends ThemeJsonPluginOptions {
     partials?: string | string[] | false;
 }
 
-import { SUPPORTED_EXTENSIONS } from "./constants.js";
+import { SUPPORTED_EXTENSIONS, VENDOR_EXTERNALS } from "./constants.js";
+import type { EXTERNAL_PRESETS } from "./externals/presets.js";
+import type { HmrIframes } from "./externals/hmr.js";
 
 export type SupportedExtension = (typeof SUPPORTED_EXTENSIONS)[number];
 
+export type VendorExternal = keyof typeof VENDOR_EXTERNALS;
+
+export type ExternalPreset = keyof typeof EXTERNAL_PRESETS;
+
 export interface ExternalMapping {
     /**
-     * Global path where the package is exposed.
+     * Global path where the package is exposed. For wildcard keys,
+     * `{name}` and `{camelCase}` are replaced with the matched name.
      *
      * @example ['acf', 'input']
+     * @example ['wc', '{camelCase}']
      */
     global: string[];
 
     /**
-     * WordPress script handle for dependency enqueueing.
+     * WordPress script handle for dependency enqueueing. For wildcard
+     * keys, `{name}` and `{camelCase}` are replaced with the matched name.
      *
      * @example 'acf-input'
+     * @example 'wc-{name}'
      */
     handle: string;
+
+    /**
+     * Also map deep subpath imports under the package (e.g.
+     * `@woocommerce/settings/utils`) to the same global and handle.
+     *
+     * @default false
+     */
+    subpaths?: boolean;
+}
+
+/**
+ * A script module dependency in the shape `wp_register_script_module` expects.
+ */
+export interface ScriptModuleDependency {
+    /**
+     * Script module identifier.
+     *
+     * @example '@wordpress/interactivity'
+     */
+    id: string;
+
+    /**
+     * Whether the module is imported statically or loaded with `import()`.
+     */
+    import: "static" | "dynamic";
 }
 
 /**
@@ -184,6 +219,7 @@ export interface WordPressPluginConfig {
 
     /**
      * External mappings for non-WordPress packages that expose globals.
+     * Keys may contain a `*` wildcard matching a single path segment.
      *
      * @example
      * ```ts
@@ -191,6 +227,10 @@ export interface WordPressPluginConfig {
      *   'acf-input': {
      *     global: ['acf', 'input'],
      *     handle: 'acf-input'
+     *   },
+     *   '@woocommerce/*': {
+     *     global: ['wc', '{camelCase}'],
+     *     handle: 'wc-{name}'
      *   }
      * }
      * ```
@@ -198,30 +238,136 @@ export interface WordPressPluginConfig {
     externalMappings?: Record<string, ExternalMapping>;
 
     /**
-     * Set to `false` to disable automatic JSX configuration.
+     * Built-in external mapping presets for popular WordPress plugins.
+     * Entries in `externalMappings` override preset entries with the same key.
+     * Unknown preset names throw.
+     *
+     * @example ['woocommerce', 'gravityforms']
+     */
+    presets?: ExternalPreset[];
+
+    /**
+     * Map a request to the global it is exposed as, before the built-in
+     * externals are consulted. Return `undefined` to fall back to the
+     * defaults, or `false` to bundle the request.
+     *
+     * @example (request) => request.startsWith('@acme/') ? ['acme', request.slice(6)] : undefined
+     */
+    requestToExternal?: (request: string) => string | string[] | false | undefined;
+
+    /**
+     * Map an externalized request to its WordPress script handle. Return
+     * `undefined` to fall back to the default handle.
+     *
+     * @example (request) => request.startsWith('@acme/') ? `acme-${request.slice(6)}` : undefined
+     */
+    requestToHandle?: (request: string) => string | undefined;
+
+    /**
+     * Third-party packages to externalize to the globals WordPress core
+     * provides (`React`, `ReactDOM`, `ReactJSXRuntime`, `jQuery`, `lodash`,
+     * `moment` and `regeneratorRuntime`). Set to `false` to bundle all of them, or
+     * toggle each package individually.
+     *
+     * @default true
+     *
+     * @example { jquery: false }
+     */
+    vendorExternals?: boolean | Partial<Record<VendorExternal, boolean>>;
+
+    /**
+     * `@wordpress/*` packages to bundle instead of loading them from
+     * WordPress, such as a newer `@wordpress/components` than core ships.
+     *
+     * @example ['@wordpress/components']
+     */
+    bundle?: string[];
+
+    /**
+     * `@wordpress/*` packages bundled by default to load from WordPress
+     * instead, such as `@wordpress/icons` when another plugin provides it.
+     *
+     * @example ['@wordpress/icons']
+     */
+    externalize?: string[];
+
+    /**
+     * Minimum WordPress version the build targets. Packages whose script
+     * handle isn't available in that release are bundled instead of
+     * externalized, and the build fails when they aren't installed.
+     *
+     * @example '6.4'
+     */
+    wpVersion?: string;
+
+    /**
+     * Check named imports from externalized packages against the exports
+     * of the installed package, warning about names it doesn't export.
+     * Set to `strict` to fail the build instead, or `false` to disable.
+     *
+     * @default true
+     */
+    validateImports?: boolean | "strict";
+
+    /**
+     * Add the `wp-polyfill` handle to the dependencies of every entry, or
+     * with `auto`, only to entries whose modules reference a polyfilled
+     * global such as `Promise` or `Object.fromEntries`.
+     *
+     * @default false
+     */
+    injectPolyfill?: boolean | "auto";
+
+    /**
+     * JSX runtime to configure. `classic` compiles JSX to `wp.element`
+     * calls, while `automatic` imports from `react/jsx-runtime`, resolved
+     * to the `ReactJSXRuntime` global of the `react-jsx-runtime` script
+     * (WordPress 6.6+). Set to `false` to disable automatic JSX configuration.
+     *
+     * @default 'classic'
      */
-    jsx?: false;
+    jsx?: false | "classic" | "automatic";
 
     /**
-     * JSX factory function.
+     * JSX factory function for the classic runtime.
      *
      * @default 'wp.element.createElement'
      */
     jsxFactory?: string;
 
     /**
-     * JSX fragment identifier.
+     * JSX fragment identifier for the classic runtime.
      *
      * @default 'wp.element.Fragment'
      */
     jsxFragment?: string;
 
+    /**
+     * Format of the per-entry dependency manifest. `php` writes an
+     * `<entry>.asset.php` file next to each entry script, compatible
+     * with `@wordpress/scripts` and `block.json` `file:` references.
+     *
+     * @default 'json'
+     */
+    outputFormat?: "json" | "php";
+
+    /**
+     * Pattern matching entry names built as script modules, such as block
+     * `viewScriptModule` files. Their manifests list script module
+     * dependencies instead of script handles. Entries importing a script
+     * module package are always treated as script modules.
+     *
+     * @example /view/
+     */
+    scriptModules?: string | RegExp;
+
     /**
      * HMR configuration for the WordPress editor.
      */
     hmr?: {
         /**
-         * Pattern to match editor entry points.
+         * Pattern to match editor entry points, which import the
+         * `virtual:wordpress-hmr` client during development.
          *
          * @default /editor/
          */
@@ -232,10 +378,39 @@ export interface WordPressPluginConfig {
          */
         enabled?: boolean;
 
+        /**
+         * Hot-reload modules that register blocks during development by
+         * re-registering their blocks instead of reloading the editor.
+         *
+         * @default true
+         */
+        blocks?: boolean;
+
+        /**
+         * Enable React Fast Refresh for `.jsx` and `.tsx` component modules
+         * during development, using WordPress's copy of React. Requires
+         * `SCRIPT_DEBUG` so WordPress loads its React Refresh runtime.
+         *
+         * @default false
+         */
+        reactRefresh?: boolean;
+
+        /**
+         * Iframes that receive CSS updates, as a selector, a list of
+         * selectors or a predicate. The predicate runs in the browser, so
+         * it can't reference variables from your Vite config.
+         *
+         * @default 'iframe'
+         *
+         * @example ['iframe[name="editor-canvas"]', '.edit-site-style-book__iframe']
+         * @example (iframe) => !iframe.src.startsWith('https://www.youtube.com')
+         */
+        iframes?: HmrIframes;
+
         /**
          * Name of the editor iframe element.
          *
-         * @default 'editor-canvas'
+         * @deprecated Use `iframes` instead.
          */
         iframeName?: string;
     };
@@ -1,10 +1,10 @@
 declare module "@wordpress/dependency-extraction-webpack-plugin/lib/util" {
-    export function defaultRequestToExternal(request: string): string[] | null;
-    export function defaultRequestToHandle(request: string): string | null;
+    export function defaultRequestToExternal(request: string): string | string[] | undefined;
+    export function defaultRequestToHandle(request: string): string | undefined;
 }
 
 // Backward compatibility for older imports with .js extension
 declare module "@wordpress/dependency-extraction-webpack-plugin/lib/util.js" {
-    export function defaultRequestToExternal(request: string): string[] | null;
-    export function defaultRequestToHandle(request: string): string | null;
+    export function defaultRequestToExternal(request: string): string | string[] | undefined;
+    export function defaultRequestToHandle(request: string): string | undefined;
 }
@@ -1,4 +1,13 @@
-import { EXEMPT_PACKAGES, CSS_WIDE_KEYWORDS } from "./constants.js";
+import {
+    EXEMPT_PACKAGES,
+    CSS_WIDE_KEYWORDS,
+    PACKAGE_VERSIONS,
+    SCRIPT_MODULES,
+    CLASSIC_SCRIPT_MODULES,
+    STYLE_HANDLES,
+    VENDOR_EXTERNALS,
+} from "./constants.js";
+import type { VendorExternal, WordPressPluginConfig } from "./types.js";
 
 /**
  * Convert a CSS size value to rem.
@@ -18,12 +27,97 @@ export function convertToRem(size: string): number {
 }
 
 /**
- * Determine if a package is exempt from externalization.
+ * Determine if a package is exempt from externalization, applying the
+ * project's `bundle` and `externalize` overrides.
  */
-export function isExemptPackage(id: string): boolean {
+export function isExemptPackage(
+    id: string,
+    overrides: Pick<WordPressPluginConfig, "bundle" | "externalize"> = {},
+): boolean {
+    if (overrides.bundle?.includes(id)) return true;
+    if (overrides.externalize?.includes(id)) return false;
+
     return (EXEMPT_PACKAGES as readonly string[]).includes(id);
 }
 
+/**
+ * Compare two dotted version strings, returning a negative number, zero or
+ * a positive number when `a` is lower than, equal to or higher than `b`.
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = a.split(".").map(Number);
+    const right = b.split(".").map(Number);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] || 0) - (right[i] || 0);
+        if (difference) return difference;
+    }
+
+    return 0;
+}
+
+/**
+ * Determine if WordPress provides a package's script handle in a release.
+ * Every package is considered available when no version is targeted.
+ */
+export function isAvailableInWordPress(id: string, wpVersion?: string): boolean {
+    const since = PACKAGE_VERSIONS[id];
+    if (!wpVersion || !since) return true;
+
+    return compareVersions(wpVersion, since) >= 0;
+}
+
+/**
+ * Determine if a package is only available as a script module.
+ */
+export function isScriptModule(id: string): boolean {
+    return (SCRIPT_MODULES as readonly string[]).includes(id);
+}
+
+/**
+ * Determine if a package is available both as a classic script and as a
+ * script module.
+ */
+export function isClassicScriptModule(id: string): boolean {
+    return (CLASSIC_SCRIPT_MODULES as readonly string[]).includes(id);
+}
+
+/**
+ * Get the package and style handle of a `@wordpress/*` stylesheet that
+ * core registers, such as `@wordpress/components/build-style/style.css`.
+ */
+export function getStyleHandle(id: string): { package: string; handle: string } | null {
+    const match = /^@wordpress\/([a-z0-9-]+)\/build-style\/([\w-]+?)(?:-rtl)?\.css$/.exec(id);
+    if (!match) return null;
+
+    const [, name, file] = match;
+    const handle =
+        STYLE_HANDLES[`@wordpress/${name}/build-style/${file}.css`] ??
+        (file === "style" ? `wp-${name}` : null);
+
+    return handle ? { package: `@wordpress/${name}`, handle } : null;
+}
+
+/**
+ * Find the vendor package a request belongs to, if WordPress provides it as a global.
+ */
+export function getVendorExternal(id: string): VendorExternal | null {
+    const entry = Object.entries(VENDOR_EXTERNALS).find(([, requests]) =>
+        (requests as readonly string[]).includes(id),
+    );
+
+    return entry ? (entry[0] as VendorExternal) : null;
+}
+
+/**
+ * Get the 1-based line and 0-based column of an offset in source code.
+ */
+export function getLocation(code: string, offset: number): { line: number; column: number } {
+    const lines = code.slice(0, offset).split("\n");
+
+    return { line: lines.length, column: lines[lines.length - 1].length };
+}
+
 /**
  * Determine if a value is a CSS-wide keyword.
  */
@@ -1,8 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, expect, it, afterAll } from "vitest";
-import { build } from "vite";
+import { build, type Rolldown } from "vite";
 import tailwindcss from "@tailwindcss/vite";
-import { wordpressThemeJson } from "../src/index.js";
+import { wordpressPlugin, wordpressThemeJson } from "../src/index.js";
 import fs from "fs";
 import path from "path";
 
@@ -33,6 +33,154 @@ async function runBuild(pluginOptions = {}, baseThemeJson = "theme.json") {
     return JSON.parse(fs.readFileSync(path.join(outDir, "theme.json"), "utf8"));
 }
 
+const externalsDir = path.join(fixtureDir, "externals");
+
+async function runExternalsBuild(
+    pluginOptions = {},
+    input: Record<string, string> = { editor: "editor.js", app: "app.js" },
+    output: Rolldown.OutputOptions = {},
+) {
+    const result = await build({
+        root: externalsDir,
+        plugins: [wordpressPlugin(pluginOptions)],
+        build: {
+            rolldownOptions: {
+                input: Object.fromEntries(
+                    Object.entries(input).map(([name, file]) => [
+                        name,
+                        path.join(externalsDir, file),
+                    ]),
+                ),
+                output,
+            },
+            write: false,
+        },
+        logLevel: "silent",
+    });
+
+    return (Array.isArray(result) ? result[0] : result) as any;
+}
+
+function readAsset(output: any, name: string) {
+    const asset = output.output.find((file: any) => file.name === name);
+
+    return asset ? JSON.parse(String(asset.source)) : undefined;
+}
+
+describe("wordpressPlugin build integration", () => {
+    it("should emit a dependency manifest per entry", async () => {
+        const output = await runExternalsBuild();
+
+        expect(readAsset(output, "editor.deps.json")).toEqual(["wp-blocks", "wp-i18n"]);
+        expect(readAsset(output, "app.deps.json")).toEqual(["wp-dom-ready", "wp-i18n"]);
+    });
+
+    it("should emit an asset.php file next to each entry script", async () => {
+        const output = await runExternalsBuild({ outputFormat: "php" });
+        const editor = output.output.find((file: any) => file.name === "editor");
+        const asset = output.output.find(
+            (file: any) => file.fileName === editor.fileName.replace(/\.js$/, ".asset.php"),
+        );
+
+        expect(asset.source).toMatch(
+            /^<\?php return \['dependencies' => \['wp-blocks', 'wp-i18n'\], 'version' => '[a-f0-9]{20}'\];/,
+        );
+    });
+
+    it("should not emit a manifest for stylesheet entries", async () => {
+        const output = await runExternalsBuild({}, { app: "app.js", style: "styles.css" });
+        const names = output.output.map((file: any) => file.name ?? file.names?.[0]);
+
+        expect(readAsset(output, "app.deps.json")).toEqual(["wp-dom-ready", "wp-i18n"]);
+        expect(names).not.toContain("style.deps.json");
+    });
+
+    it("should not emit an asset.php file for stylesheet entries", async () => {
+        const output = await runExternalsBuild(
+            { outputFormat: "php" },
+            { app: "app.js", style: "styles.css" },
+        );
+        const assets = output.output
+            .filter((file: any) => file.fileName.endsWith(".asset.php"))
+            .map((file: any) => file.fileName);
+
+        expect(assets).toHaveLength(1);
+        expect(assets[0]).toMatch(/^assets\/app-.+\.asset\.php$/);
+    });
+
+    it("should drop WordPress stylesheets and emit style dependencies", async () => {
+        const output = await runExternalsBuild({}, { styles: "styles.js" });
+        const css = output.output
+            .filter((file: any) => file.fileName.endsWith(".css"))
+            .map((file: any) => String(file.source))
+            .join("");
+
+        expect(css).toContain(".fixture{color:red}");
+        expect(readAsset(output, "styles.style-deps.json")).toEqual([
+            "wp-block-editor",
+            "wp-components",
+        ]);
+        expect(readAsset(output, "styles.deps.json")).toEqual([]);
+    });
+
+    it("should keep script module imports and emit module dependencies", async () => {
+        const output = await runExternalsBuild({}, { view: "view.js" });
+        const chunk = output.output.find((file: any) => file.name === "view");
+
+        expect(chunk.code).toMatch(/from\s*"@wordpress\/interactivity"/);
+        expect(chunk.code).toMatch(/import\(.@wordpress\/interactivity-router.\)/);
+        expect(readAsset(output, "view.deps.json")).toEqual([
+            { id: "@wordpress/interactivity", import: "static" },
+            { id: "@wordpress/interactivity-router", import: "dynamic" },
+        ]);
+    });
+
+    it("should keep a11y imports in script modules and use its global in scripts", async () => {
+        const output = await runExternalsBuild({}, { view: "view-a11y.js", notice: "notice.js" });
+        const view = output.output.find((file: any) => file.name === "view");
+        const notice = output.output.find((file: any) => file.name === "notice");
+
+        expect(view.code).toMatch(/from\s*"@wordpress\/a11y"/);
+        expect(readAsset(output, "view.deps.json")).toEqual([
+            { id: "@wordpress/a11y", import: "dynamic" },
+            { id: "@wordpress/interactivity", import: "static" },
+        ]);
+
+        expect(notice.code).toContain("wp.a11y.speak");
+        expect(notice.code).not.toContain("@wordpress/a11y");
+        expect(readAsset(output, "notice.deps.json")).toEqual(["wp-a11y"]);
+    });
+
+    it("should use the a11y global in scripts built as IIFE", async () => {
+        const output = await runExternalsBuild({}, { notice: "notice.js" }, { format: "iife" });
+        const notice = output.output.find((file: any) => file.name === "notice");
+
+        expect(notice.code).toContain("wp.a11y.speak");
+        expect(notice.code).not.toContain("_wordpress_a11y");
+        expect(readAsset(output, "notice.deps.json")).toEqual(["wp-a11y"]);
+    });
+});
+
+describe("wordpressPlugin JSX runtimes", () => {
+    it("should compile JSX to wp.element calls with the classic runtime", async () => {
+        const output = await runExternalsBuild({}, { block: "block.jsx" });
+        const chunk = output.output.find((file: any) => file.name === "block");
+
+        expect(chunk.code).toContain("wp.element.createElement");
+        expect(readAsset(output, "block.deps.json")).toEqual(["wp-blocks"]);
+    });
+
+    it("should use the ReactJSXRuntime global with the automatic runtime", async () => {
+        const output = await runExternalsBuild({ jsx: "automatic" }, { block: "block.jsx" });
+        const chunk = output.output.find((file: any) => file.name === "block");
+
+        expect(chunk.code).toContain("window.ReactJSXRuntime");
+        expect(chunk.code).not.toContain("wp.element.createElement");
+        expect(chunk.code).not.toContain("react/jsx-runtime");
+        expect(readAsset(output, "block.deps.json")).toEqual(["react-jsx-runtime", "wp-blocks"]);
+    });
+});
+
 describe("vite build integration", () => {
     afterAll(() => {
         fs.rmSync(outDir, { recursive: true, force: true });
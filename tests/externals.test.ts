@@ -1,10 +1,36 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { describe, expect, it, beforeEach, vi } from "vitest";
-import type { Plugin, TransformResult, Rolldown } from "vite";
+import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
+import { parseSync, type Plugin, type TransformResult, type Rolldown } from "vite";
+import { TraceMap, originalPositionFor } from "@jridgewell/trace-mapping";
+import fs from "fs";
+import os from "os";
+import path from "path";
 
 // Mock WordPress dependency extraction plugin before importing our plugin
 vi.mock("@wordpress/dependency-extraction-webpack-plugin/lib/util", () => ({
     defaultRequestToExternal: vi.fn((request: string) => {
+        switch (request) {
+            case "moment":
+                return request;
+            case "lodash":
+            case "lodash-es":
+                return "lodash";
+            case "jquery":
+                return "jQuery";
+            case "react":
+                return "React";
+            case "react-dom":
+            case "react-dom/client":
+                return "ReactDOM";
+            case "react/jsx-runtime":
+                return "ReactJSXRuntime";
+        }
+
+        // WordPress doesn't provide a global for packages it bundles.
+        if (request === "@wordpress/icons") {
+            return undefined;
+        }
+
         if (request.startsWith("@wordpress/")) {
             const pkg = request.substring("@wordpress/".length);
             return [
@@ -13,150 +39,2236 @@ vi.mock("@wordpress/dependency-extraction-webpack-plugin/lib/util", () => ({
             ];
         }
 
-        return null;
-    }),
-    defaultRequestToHandle: vi.fn((request: string) => {
-        if (request.startsWith("@wordpress/")) {
-            return "wp-" + request.substring("@wordpress/".length);
-        }
+        return null;
+    }),
+    defaultRequestToHandle: vi.fn((request: string) => {
+        switch (request) {
+            case "lodash-es":
+                return "lodash";
+            case "react-dom/client":
+                return "react-dom";
+            case "react/jsx-runtime":
+                return "react-jsx-runtime";
+        }
+
+        if (request.startsWith("@wordpress/")) {
+            return "wp-" + request.substring("@wordpress/".length);
+        }
+
+        return null;
+    }),
+}));
+
+import { EXTERNAL_PRESETS, wordpressPlugin } from "../src/index.js";
+import { shouldInjectHmr, createHmrCode } from "../src/externals/hmr.js";
+import { HMR_MODULE_ID, RESOLVED_HMR_MODULE_ID } from "../src/constants.js";
+
+/**
+ * Create a minimal output chunk for manifest generation.
+ */
+function createChunk(
+    name: string,
+    moduleIds: string[],
+    options: {
+        isEntry?: boolean;
+        imports?: string[];
+        dynamicImports?: string[];
+        code?: string;
+        facadeModuleId?: string;
+    } = {},
+): Rolldown.OutputChunk {
+    return {
+        type: "chunk",
+        name,
+        fileName: `${name}.js`,
+        isEntry: options.isEntry ?? true,
+        moduleIds,
+        imports: options.imports ?? [],
+        dynamicImports: options.dynamicImports ?? [],
+        code: options.code ?? "",
+        facadeModuleId: options.facadeModuleId ?? null,
+    } as unknown as Rolldown.OutputChunk;
+}
+
+/**
+ * Create an output bundle keyed by chunk file name.
+ */
+function createBundle(...chunks: Rolldown.OutputChunk[]): Rolldown.OutputBundle {
+    return Object.fromEntries(chunks.map((chunk) => [chunk.fileName, chunk]));
+}
+
+/**
+ * Run the generate bundle hook, collecting emitted files and warnings.
+ */
+function runGenerateBundle(plugin: Plugin, bundle: Rolldown.OutputBundle) {
+    const emitFile = vi.fn();
+    const warn = vi.fn();
+    (plugin.generateBundle as any).call({ emitFile, warn } as any, {} as any, bundle, false);
+
+    return { files: emitFile.mock.calls.map(([file]) => file), warn };
+}
+
+/**
+ * Create a plugin resolved for the dev server.
+ */
+function createDevPlugin(options: Parameters<typeof wordpressPlugin>[0] = {}): Plugin {
+    const plugin = wordpressPlugin(options);
+    (plugin.configResolved as any)({ root: process.cwd(), command: "serve" });
+
+    return plugin;
+}
+
+describe("wordpressPlugin", () => {
+    let plugin: Plugin;
+
+    beforeEach(() => {
+        plugin = wordpressPlugin();
+    });
+
+    describe("import transformation", () => {
+        it("should transform named imports", () => {
+            const code = `import { useState, useEffect } from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toContain("const useState = wp.element.useState;");
+            expect(result?.code).toContain("const useEffect = wp.element.useEffect;");
+        });
+
+        it("should transform aliased named imports", () => {
+            const code = `import { useState as useStateWP } from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toContain("const useStateWP = wp.element.useState;");
+        });
+
+        it("should transform namespace imports", () => {
+            const code = `import * as element from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toContain("const element = wp.element;");
+        });
+
+        it("should transform default imports", () => {
+            const code = `import apiFetch from '@wordpress/api-fetch';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toContain("const apiFetch = wp.apiFetch;");
+        });
+
+        it("should transform combined default and named imports", () => {
+            const code = `import apiFetch, { createNonceMiddleware } from '@wordpress/api-fetch';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const apiFetch = wp.apiFetch;",
+                    "const createNonceMiddleware = wp.apiFetch.createNonceMiddleware;",
+                ].join("\n"),
+            );
+        });
+
+        it("should transform combined default and namespace imports", () => {
+            const code = `import apiFetch, * as api from '@wordpress/api-fetch';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                ["const apiFetch = wp.apiFetch;", "const api = wp.apiFetch;"].join("\n"),
+            );
+        });
+
+        it("should resolve named default imports to the global", () => {
+            const code = `import { default as apiFetch } from '@wordpress/api-fetch';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe("const apiFetch = wp.apiFetch;");
+        });
+
+        it("should transform string literal named imports", () => {
+            const code = `import { "some-name" as someName } from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe('const someName = wp.element["some-name"];');
+        });
+
+        it("should transform side-effect imports", () => {
+            const code = `import '@wordpress/block-editor';`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toBe("");
+        });
+
+        it("should handle multiple imports", () => {
+            const code = `
+            import { useState } from '@wordpress/element';
+            import apiFetch from '@wordpress/api-fetch';
+            import * as blocks from '@wordpress/blocks';
+          `.trim();
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toContain("const useState = wp.element.useState;");
+            expect(result?.code).toContain("const apiFetch = wp.apiFetch;");
+            expect(result?.code).toContain("const blocks = wp.blocks;");
+        });
+
+        it("should transform imports that share a line with other code", () => {
+            const code = `const a = 1; import { useState } from '@wordpress/element'; useState(a);`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                "const a = 1; const useState = wp.element.useState; useState(a);",
+            );
+        });
+
+        it("should transform multiline imports", () => {
+            const code = `import {
+                useState,
+                useEffect,
+            } from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toContain("const useState = wp.element.useState;");
+            expect(result?.code).toContain("const useEffect = wp.element.useEffect;");
+        });
+
+        it("should not transform imports inside template literals", () => {
+            const code = [
+                "const snippet = `",
+                "import { useState } from '@wordpress/element';",
+                "`;",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result).toBeNull();
+        });
+
+        it("should not transform imports inside comments", () => {
+            const code = [
+                "/*",
+                "import { useState } from '@wordpress/element';",
+                "*/",
+                "// import apiFetch from '@wordpress/api-fetch';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result).toBeNull();
+        });
+
+        it("should transform imports in JSX authored in .js files", () => {
+            const code = `import { useState } from '@wordpress/element';
+            export const Edit = () => <div>{useState}</div>;`;
+
+            const result = (plugin.transform as any)?.(code, "edit.js") as TransformResult;
+
+            expect(result?.code).toContain("const useState = wp.element.useState;");
+        });
+
+        it("should report modules that fail to parse", () => {
+            const code = `import { useState } from '@wordpress/element';\nconst = ;`;
+            const error = vi.fn((message: string) => {
+                throw new Error(message);
+            });
+
+            expect(() => (plugin.transform as any).call({ error }, code, "test.tsx")).toThrow(
+                /^Failed to parse test\.tsx:2:7: /,
+            );
+        });
+
+        it("should drop type-only imports", () => {
+            const code = `import type { BlockConfiguration } from '@wordpress/blocks';`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result?.code).toBe("");
+        });
+
+        it("should drop inline type specifiers", () => {
+            const code = [
+                "import { type BlockConfiguration, registerBlockType } from '@wordpress/blocks';",
+                "registerBlockType('acme/hero', {});",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                "const registerBlockType = wp.blocks.registerBlockType;\nregisterBlockType('acme/hero', {});",
+            );
+        });
+
+        it("should drop imports where every specifier is a type", () => {
+            const code = `import { type BlockConfiguration, type BlockEditProps } from '@wordpress/blocks';`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result?.code).toBe("");
+        });
+
+        it("should only transform files with supported extensions", () => {
+            const code = `import { useState } from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.md");
+
+            expect(result).toBeNull();
+        });
+
+        it("should preserve non-WordPress imports", () => {
+            const code = `
+            import { useState } from '@wordpress/element';
+            import clsx from 'clsx';
+            import styles from './styles.css';
+          `.trim();
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result).toBeDefined();
+            expect(result?.code).toContain("const useState = wp.element.useState;");
+            expect(result?.code).toContain("import clsx from 'clsx';");
+            expect(result?.code).toContain("import styles from './styles.css';");
+        });
+
+        it("should drop TypeScript imports only used as types", () => {
+            const code = [
+                "import { BlockConfiguration, registerBlockType } from '@wordpress/blocks';",
+                "import { BlockEditProps } from '@wordpress/block-editor';",
+                "const settings: BlockConfiguration = { edit: (props: BlockEditProps<{}>) => <div /> };",
+                "registerBlockType('acme/hero', settings);",
+            ].join("\n");
+
+            const result = (plugin.transform as any)(code, "edit.tsx") as TransformResult;
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("editor", ["edit.tsx"])),
+            );
+
+            expect(result.code).toBe(
+                [
+                    "const registerBlockType = wp.blocks.registerBlockType;",
+                    "",
+                    "const settings: BlockConfiguration = { edit: (props: BlockEditProps<{}>) => <div /> };",
+                    "registerBlockType('acme/hero', settings);",
+                ].join("\n"),
+            );
+            expect(JSON.parse(files[0].source)).toEqual(["wp-blocks"]);
+        });
+    });
+
+    describe("re-exports", () => {
+        let tmpDir: string;
+
+        beforeEach(() => {
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wp-reexports-"));
+
+            const pkgDir = path.join(tmpDir, "node_modules", "@wordpress", "data");
+            fs.mkdirSync(path.join(pkgDir, "build-module"), { recursive: true });
+            fs.writeFileSync(
+                path.join(pkgDir, "package.json"),
+                JSON.stringify({ name: "@wordpress/data", module: "build-module/index.js" }),
+            );
+            fs.writeFileSync(
+                path.join(pkgDir, "build-module", "index.js"),
+                [
+                    "export { default as createReduxStore } from './redux-store';",
+                    "export * from './registry';",
+                    "export const select = () => {};",
+                    "export default {};",
+                ].join("\n"),
+            );
+            fs.writeFileSync(
+                path.join(pkgDir, "build-module", "registry.js"),
+                "export function createRegistry() {}\nexport const useSelect = () => {};",
+            );
+        });
+
+        afterEach(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        it("should transform named re-exports", () => {
+            const code = `export { Button, Panel as WPPanel } from '@wordpress/components';`;
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const __wp_export_Button = wp.components.Button;",
+                    "const __wp_export_WPPanel = wp.components.Panel;",
+                    "export { __wp_export_Button as Button, __wp_export_WPPanel as WPPanel };",
+                ].join("\n"),
+            );
+        });
+
+        it("should transform default re-exports to the global", () => {
+            const code = `export { default as apiFetch } from '@wordpress/api-fetch';`;
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            expect(result?.code).toContain("const __wp_export_apiFetch = wp.apiFetch;");
+        });
+
+        it("should transform namespace re-exports", () => {
+            const code = `export * as data from '@wordpress/data';`;
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            expect(result?.code).toBe(
+                ["const __wp_export_data = wp.data;", "export { __wp_export_data as data };"].join(
+                    "\n",
+                ),
+            );
+        });
+
+        it("should drop type-only re-exports", () => {
+            const code = [
+                "export type { BlockConfiguration } from '@wordpress/blocks';",
+                "export { type BlockEditProps } from '@wordpress/block-editor';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            expect(result?.code.trim()).toBe("");
+        });
+
+        it("should transform star re-exports using the installed package exports", () => {
+            (plugin.configResolved as any)({ root: tmpDir });
+
+            const code = `export * from '@wordpress/data';\nexport const select = 1;`;
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            expect(result?.code).toContain(
+                "const __wp_export_createReduxStore = wp.data.createReduxStore;",
+            );
+            expect(result?.code).toContain(
+                "const __wp_export_createRegistry = wp.data.createRegistry;",
+            );
+            expect(result?.code).toContain("const __wp_export_useSelect = wp.data.useSelect;");
+            expect(result?.code).not.toContain("__wp_export_select");
+            expect(result?.code).not.toContain("__wp_export_default");
+        });
+
+        it("should drop names several star re-exports provide", () => {
+            const pkgDir = path.join(tmpDir, "node_modules", "@wordpress", "core-data");
+            fs.mkdirSync(pkgDir, { recursive: true });
+            fs.writeFileSync(
+                path.join(pkgDir, "package.json"),
+                JSON.stringify({ name: "@wordpress/core-data", module: "index.js" }),
+            );
+            fs.writeFileSync(
+                path.join(pkgDir, "index.js"),
+                "export const store = {};\nexport const useEntityProp = () => {};",
+            );
+            fs.appendFileSync(
+                path.join(tmpDir, "node_modules", "@wordpress", "data", "build-module", "index.js"),
+                "\nexport const store = {};",
+            );
+
+            (plugin.configResolved as any)({ root: tmpDir });
+
+            const code = [
+                "export * from '@wordpress/data';",
+                "export * from '@wordpress/core-data';",
+                "export * from '@wordpress/data';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            expect(result?.code).not.toContain("__wp_export_store");
+            expect(result?.code).toContain("const __wp_export_select = wp.data.select;");
+            expect(result?.code).toContain(
+                "const __wp_export_useEntityProp = wp.coreData.useEntityProp;",
+            );
+            expect(result?.code.match(/const __wp_export_select =/g)).toHaveLength(1);
+            expect(parseSync("index.js", result.code).errors).toEqual([]);
+        });
+
+        it("should warn when star re-export names cannot be determined", () => {
+            (plugin.configResolved as any)({ root: tmpDir });
+
+            const warn = vi.fn();
+            const code = `export * from '@wordpress/editor';`;
+
+            const result = (plugin.transform as any).call(
+                { warn },
+                code,
+                "index.ts",
+            ) as TransformResult;
+
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining("@wordpress/editor"));
+            expect(result).toBeNull();
+        });
+
+        it("should track re-exported package dependencies in manifest", () => {
+            const code = `export { Button } from '@wordpress/components';`;
+
+            (plugin.transform as any)?.(code, "index.ts");
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.ts"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["wp-components"], null, 2),
+                }),
+            );
+        });
+    });
+
+    describe("import validation", () => {
+        let tmpDir: string;
+
+        beforeEach(() => {
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wp-validate-"));
+
+            const pkgDir = path.join(tmpDir, "node_modules", "@wordpress", "block-editor");
+            fs.mkdirSync(pkgDir, { recursive: true });
+            fs.writeFileSync(
+                path.join(pkgDir, "package.json"),
+                JSON.stringify({ module: "index.js" }),
+            );
+            fs.writeFileSync(
+                path.join(pkgDir, "index.js"),
+                "export function useBlockProps() {}\nexport const InspectorControls = {};\n",
+            );
+        });
+
+        afterEach(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        const runTransform = (plugin: Plugin, code: string, id = "/src/edit.js?v=1") => {
+            const context = {
+                warn: vi.fn(),
+                error: vi.fn((message: string) => {
+                    throw new Error(message);
+                }),
+            };
+
+            (plugin.configResolved as any)({ root: tmpDir });
+            (plugin.transform as any).call(context, code, id);
+
+            return context;
+        };
+
+        it("should warn about named imports the package doesn't export", () => {
+            const { warn } = runTransform(
+                plugin,
+                [
+                    "import { __ } from '@wordpress/i18n';",
+                    "import { useBlockProp, InspectorControls } from '@wordpress/block-editor';",
+                ].join("\n"),
+            );
+
+            expect(warn).toHaveBeenCalledOnce();
+            expect(warn).toHaveBeenCalledWith(
+                '"useBlockProp" is not exported by "@wordpress/block-editor" (/src/edit.js:2:10).',
+            );
+        });
+
+        it("should check named re-exports", () => {
+            const { warn } = runTransform(
+                plugin,
+                "export { useBlockProp as useProps } from '@wordpress/block-editor';",
+            );
+
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('"useBlockProp"'));
+        });
+
+        it("should not warn about known, default or type-only imports", () => {
+            const { warn } = runTransform(
+                plugin,
+                [
+                    "import editor, { useBlockProps } from '@wordpress/block-editor';",
+                    "import type { BlockProps } from '@wordpress/block-editor';",
+                    "import { type EditorSettings } from '@wordpress/block-editor';",
+                ].join("\n"),
+                "/src/edit.ts",
+            );
+
+            expect(warn).not.toHaveBeenCalled();
+        });
+
+        it("should only check TypeScript imports used as values", () => {
+            const { warn } = runTransform(
+                plugin,
+                [
+                    "import { BlockEditProps, useBlockProp, InspectorControls } from '@wordpress/block-editor';",
+                    "import { Settings, Missing } from '@wordpress/block-editor';",
+                    "type Props = BlockEditProps<Settings>;",
+                    "export const Edit = (props: Props): typeof InspectorControls => useBlockProp(props);",
+                    "export const View = () => <Missing />;",
+                ].join("\n"),
+                "/src/edit.tsx",
+            );
+
+            expect(warn.mock.calls).toEqual([
+                [
+                    '"useBlockProp" is not exported by "@wordpress/block-editor" (/src/edit.tsx:1:26).',
+                ],
+                ['"Missing" is not exported by "@wordpress/block-editor" (/src/edit.tsx:2:20).'],
+            ]);
+        });
+
+        it("should fail the build in strict mode", () => {
+            const plugin = wordpressPlugin({ validateImports: "strict" });
+
+            expect(() =>
+                runTransform(plugin, "import { useBlockProp } from '@wordpress/block-editor';"),
+            ).toThrow('"useBlockProp" is not exported by "@wordpress/block-editor"');
+        });
+
+        it("should skip validation when disabled", () => {
+            const plugin = wordpressPlugin({ validateImports: false });
+
+            const { warn } = runTransform(
+                plugin,
+                "import { useBlockProp } from '@wordpress/block-editor';",
+            );
+
+            expect(warn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("dynamic imports", () => {
+        it("should transform dynamic imports of WordPress packages", () => {
+            const code = `const { store } = await import('@wordpress/editor');`;
+
+            const result = (plugin.transform as any)?.(code, "panel.ts") as TransformResult;
+
+            expect(result?.code).toBe(
+                "const { store } = await Promise.resolve({ ...wp.editor, default: wp.editor });",
+            );
+        });
+
+        it("should transform dynamic imports with template literal specifiers", () => {
+            const code = "const load = () => import(`@wordpress/editor`);";
+
+            const result = (plugin.transform as any)?.(code, "panel.ts") as TransformResult;
+
+            expect(result?.code).toBe(
+                "const load = () => Promise.resolve({ ...wp.editor, default: wp.editor });",
+            );
+        });
+
+        it("should transform dynamic imports of custom packages", () => {
+            const plugin = wordpressPlugin({
+                externalMappings: {
+                    "acf-input": {
+                        global: ["acf", "input"],
+                        handle: "acf-input",
+                    },
+                },
+            });
+
+            const code = `import('acf-input').then((acf) => acf.Field);`;
+
+            const result = (plugin.transform as any)?.(code, "panel.ts") as TransformResult;
+
+            expect(result?.code).toBe(
+                "Promise.resolve({ ...acf.input, default: acf.input }).then((acf) => acf.Field);",
+            );
+        });
+
+        it("should expose default-export packages as the default export", async () => {
+            const code = [
+                "const load = async () => {",
+                "    const apiFetch = (await import('@wordpress/api-fetch')).default;",
+                "    const { default: domReady } = await import('@wordpress/dom-ready');",
+                "    const { use } = await import('@wordpress/api-fetch');",
+                "    return { apiFetch, domReady, use };",
+                "};",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "index.ts") as TransformResult;
+
+            const fetch = Object.assign(() => {}, { use: () => {} });
+            const wp = { apiFetch: fetch, domReady: () => {} };
+            const AsyncFunction = (async () => {}).constructor as FunctionConstructor;
+
+            await expect(
+                new AsyncFunction("wp", `${result.code}\nreturn load();`)(wp),
+            ).resolves.toEqual({
+                apiFetch: wp.apiFetch,
+                domReady: wp.domReady,
+                use: fetch.use,
+            });
+        });
+
+        it("should read shadowed globals from globalThis", () => {
+            const code = [
+                "const React = createReact();",
+                "const load = () => import('react');",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "panel.js") as TransformResult;
+
+            expect(result?.code).toContain(
+                "const load = () => Promise.resolve({ ...globalThis.React, default: globalThis.React });",
+            );
+        });
+
+        it("should preserve other dynamic imports", () => {
+            const code = [
+                "import('./panel.js');",
+                "import('clsx');",
+                "import(`@wordpress/${name}`);",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "panel.ts") as TransformResult;
+
+            expect(result).toBeNull();
+        });
+
+        it("should track dynamically imported dependencies in manifest", () => {
+            const code = `const load = () => import('@wordpress/editor');`;
+
+            (plugin.transform as any)?.(code, "index.ts");
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.ts"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["wp-editor"], null, 2),
+                }),
+            );
+        });
+    });
+
+    describe("vendor externals", () => {
+        it("should transform React imports to the global", () => {
+            const code = `import React, { useState } from 'react';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const React = globalThis.React;",
+                    "const useState = globalThis.React.useState;",
+                ].join("\n"),
+            );
+        });
+
+        it("should transform named vendor imports", () => {
+            const code = [
+                "import { createRoot } from 'react-dom/client';",
+                "import $ from 'jquery';",
+                "import { debounce } from 'lodash-es';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const createRoot = ReactDOM.createRoot;",
+                    "const $ = jQuery;",
+                    "const debounce = lodash.debounce;",
+                ].join("\n"),
+            );
+        });
+
+        it("should mark vendor packages as external", () => {
+            const result = (plugin.options as any)({}) as Rolldown.InputOptions;
+            const external = result.external as (id: string) => boolean;
+
+            expect(external("react")).toBe(true);
+            expect(external("react-dom")).toBe(true);
+            expect(external("react-dom/client")).toBe(true);
+            expect(external("jquery")).toBe(true);
+            expect(external("lodash")).toBe(true);
+            expect(external("lodash-es")).toBe(true);
+            expect(external("moment")).toBe(true);
+        });
+
+        it("should track vendor handles in manifest", () => {
+            const code = [
+                "import React from 'react';",
+                "import { createRoot } from 'react-dom/client';",
+                "import { debounce } from 'lodash-es';",
+                "import moment from 'moment';",
+            ].join("\n");
+
+            (plugin.transform as any)?.(code, "index.js");
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.js"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["lodash", "moment", "react", "react-dom"], null, 2),
+                }),
+            );
+        });
+
+        it("should bundle every vendor package when disabled", () => {
+            const plugin = wordpressPlugin({ vendorExternals: false });
+            const code = `import React from 'react';`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(result).toBeNull();
+            expect(external("react")).toBe(false);
+            expect(external("@wordpress/element")).toBe(true);
+        });
+
+        it("should toggle vendor packages individually", () => {
+            const plugin = wordpressPlugin({ vendorExternals: { jquery: false } });
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("jquery")).toBe(false);
+            expect(external("react")).toBe(true);
+            expect((plugin.resolveId as any)("jquery", "index.ts")).toBeNull();
+        });
+    });
+
+    describe("wordpress version", () => {
+        let tmpDir: string;
+
+        beforeEach(() => {
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wp-version-"));
+        });
+
+        afterEach(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        const getExternal = (plugin: Plugin) =>
+            ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+        it("should externalize every package when no version is targeted", () => {
+            expect(getExternal(plugin)("@wordpress/commands")).toBe(true);
+        });
+
+        it("should bundle packages added after the targeted version", () => {
+            const external = getExternal(wordpressPlugin({ wpVersion: "6.2" }));
+
+            expect(external("@wordpress/commands")).toBe(false);
+            expect(external("@wordpress/patterns")).toBe(false);
+            expect(external("@wordpress/block-editor")).toBe(true);
+            expect(external("@wordpress/element")).toBe(true);
+        });
+
+        it("should externalize packages available in the targeted version", () => {
+            const external = getExternal(wordpressPlugin({ wpVersion: "6.4.2" }));
+
+            expect(external("@wordpress/commands")).toBe(true);
+            expect(external("@wordpress/patterns")).toBe(true);
+        });
+
+        it("should leave imports of unavailable packages untouched", () => {
+            const plugin = wordpressPlugin({ wpVersion: "6.2" });
+            const code = `import { useCommand } from '@wordpress/commands';`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result).toBeNull();
+        });
+
+        it("should bundle the JSX runtime before WordPress 6.6", () => {
+            const external = getExternal(wordpressPlugin({ wpVersion: "6.5" }));
+
+            expect(external("react/jsx-runtime")).toBe(false);
+            expect(external("react")).toBe(true);
+        });
+
+        it("should reject the automatic JSX runtime before WordPress 6.6", () => {
+            const plugin = wordpressPlugin({ jsx: "automatic", wpVersion: "6.5" });
+
+            expect(() => (plugin.config as any)()).toThrow(/WordPress 6\.6/);
+        });
+
+        it("should fail when an unavailable package is not installed", () => {
+            const plugin = wordpressPlugin({ wpVersion: "6.2" });
+            const error = vi.fn((message: string) => {
+                throw new Error(message);
+            });
+
+            (plugin.configResolved as any)({ root: tmpDir });
+
+            expect(() =>
+                (plugin.resolveId as any).call({ error }, "@wordpress/commands", "index.ts"),
+            ).toThrow(/"@wordpress\/commands" is not available in WordPress 6\.2/);
+        });
+
+        it("should resolve an unavailable package that is installed", () => {
+            const plugin = wordpressPlugin({ wpVersion: "6.2" });
+            const pkgDir = path.join(tmpDir, "node_modules", "@wordpress", "commands");
+            const error = vi.fn();
+
+            fs.mkdirSync(pkgDir, { recursive: true });
+            fs.writeFileSync(path.join(pkgDir, "package.json"), "{}");
+            (plugin.configResolved as any)({ root: tmpDir });
+
+            expect(
+                (plugin.resolveId as any).call({ error }, "@wordpress/commands", "index.ts"),
+            ).toBeNull();
+            expect(error).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("jsx runtime", () => {
+        it("should configure the classic runtime by default", () => {
+            const result = (plugin.config as any)();
+
+            expect(result.oxc.jsx).toEqual({
+                runtime: "classic",
+                pragma: "wp.element.createElement",
+                pragmaFrag: "wp.element.Fragment",
+            });
+        });
+
+        it("should configure the automatic runtime", () => {
+            const plugin = wordpressPlugin({ jsx: "automatic" });
+            const result = (plugin.config as any)();
+
+            expect(result.oxc.jsx).toEqual({
+                runtime: "automatic",
+                importSource: "react",
+                development: false,
+            });
+        });
+
+        it("should not configure JSX when disabled", () => {
+            const plugin = wordpressPlugin({ jsx: false });
+
+            expect((plugin.config as any)()).toBeUndefined();
+        });
+
+        it("should resolve the automatic JSX runtime to the ReactJSXRuntime global", () => {
+            const plugin = wordpressPlugin({ jsx: "automatic" });
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            const id = (plugin.resolveId as any)("react/jsx-runtime", "block.jsx");
+
+            expect(external("react/jsx-runtime")).toBe(false);
+            expect((plugin.load as any)(id)).toContain("window.ReactJSXRuntime");
+        });
+
+        it("should record the react-jsx-runtime handle for the runtime module", () => {
+            const plugin = wordpressPlugin({ jsx: "automatic" });
+            const id = (plugin.resolveId as any)("react/jsx-runtime", "block.jsx");
+
+            (plugin.load as any)(id);
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("block", ["block.jsx", id])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["react-jsx-runtime"], null, 2),
+                }),
+            );
+        });
+
+        it("should externalize explicit react/jsx-runtime imports", () => {
+            const code = `import { jsx } from 'react/jsx-runtime';`;
+
+            const result = (plugin.transform as any)?.(code, "test.js") as TransformResult;
+
+            expect(result?.code).toBe("const jsx = ReactJSXRuntime.jsx;");
+        });
+    });
+
+    describe("wildcard external mappings", () => {
+        const wooPlugin = (subpaths = false) =>
+            wordpressPlugin({
+                externalMappings: {
+                    "@woocommerce/*": {
+                        global: ["wc", "{camelCase}"],
+                        handle: "wc-{name}",
+                        subpaths,
+                    },
+                },
+            });
+
+        it("should transform imports matching a wildcard key", () => {
+            const plugin = wooPlugin();
+            const code = [
+                "import { registerCheckoutFilters } from '@woocommerce/blocks-checkout';",
+                "import { getSetting } from '@woocommerce/settings';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const registerCheckoutFilters = wc.blocksCheckout.registerCheckoutFilters;",
+                    "const getSetting = wc.settings.getSetting;",
+                ].join("\n"),
+            );
+        });
+
+        it("should template handles in the manifest", () => {
+            const plugin = wooPlugin();
+
+            (plugin.transform as any)?.(
+                `import '@woocommerce/blocks-checkout';\nimport '@woocommerce/price-format';`,
+                "index.ts",
+            );
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.ts"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["wc-blocks-checkout", "wc-price-format"], null, 2),
+                }),
+            );
+        });
+
+        it("should only match a single path segment by default", () => {
+            const plugin = wooPlugin();
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("@woocommerce/settings")).toBe(true);
+            expect(external("@woocommerce/settings/utils")).toBe(false);
+            expect(external("@woocommerce")).toBe(false);
+        });
+
+        it("should map deep subpath imports when enabled", () => {
+            const plugin = wooPlugin(true);
+            const code = `import { getSetting } from '@woocommerce/settings/utils';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe("const getSetting = wc.settings.getSetting;");
+        });
+
+        it("should map deep subpath imports of exact keys when enabled", () => {
+            const plugin = wordpressPlugin({
+                externalMappings: {
+                    "acf-input": { global: ["acf"], handle: "acf-input", subpaths: true },
+                },
+            });
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("acf-input/fields")).toBe(true);
+            expect(external("acf-input-extra")).toBe(false);
+        });
+
+        it("should prefer exact keys over wildcard keys", () => {
+            const plugin = wordpressPlugin({
+                externalMappings: {
+                    "@woocommerce/*": { global: ["wc", "{camelCase}"], handle: "wc-{name}" },
+                    "@woocommerce/settings": { global: ["wcSettings"], handle: "wc-settings" },
+                },
+            });
+            const code = `import { getSetting } from '@woocommerce/settings';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe("const getSetting = wcSettings.getSetting;");
+        });
+    });
+
+    describe("external presets", () => {
+        it("should transform imports covered by a preset", () => {
+            const plugin = wordpressPlugin({ presets: ["woocommerce"] });
+            const code = [
+                "import { registerCheckoutFilters } from '@woocommerce/blocks-checkout';",
+                "import { getSetting } from '@woocommerce/settings';",
+                "import { generateCSVDataFromTable } from '@woocommerce/csv-export';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const registerCheckoutFilters = wc.blocksCheckout.registerCheckoutFilters;",
+                    "const getSetting = wc.wcSettings.getSetting;",
+                    "const generateCSVDataFromTable = wc.csvExport.generateCSVDataFromTable;",
+                ].join("\n"),
+            );
+        });
+
+        it("should add preset handles to the manifest", () => {
+            const plugin = wordpressPlugin({ presets: ["woocommerce"] });
+
+            (plugin.transform as any)?.(
+                `import '@woocommerce/data';\nimport '@woocommerce/csv-export';`,
+                "index.ts",
+            );
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.ts"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["wc-csv", "wc-store-data"], null, 2),
+                }),
+            );
+        });
+
+        it("should only externalize packages the plugin exposes", () => {
+            const external = (plugin: Plugin) =>
+                ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                    id: string,
+                ) => boolean;
+
+            expect(
+                external(wordpressPlugin({ presets: ["woocommerce"] }))("@woocommerce/data"),
+            ).toBe(true);
+            expect(
+                external(wordpressPlugin({ presets: ["woocommerce"] }))("@woocommerce/shared-hocs"),
+            ).toBe(false);
+            expect(external(wordpressPlugin())("@woocommerce/data")).toBe(false);
+        });
+
+        it("should let external mappings override preset entries", () => {
+            const plugin = wordpressPlugin({
+                presets: ["woocommerce"],
+                externalMappings: {
+                    "@woocommerce/settings": { global: ["wcSettings"], handle: "wc-settings" },
+                },
+            });
+            const code = `import { getSetting } from '@woocommerce/settings';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe("const getSetting = wcSettings.getSetting;");
+        });
+
+        it("should map Gravity Forms packages to their published globals", () => {
+            const plugin = wordpressPlugin({ presets: ["gravityforms"] });
+            const code = [
+                "import { filter } from '@gravityforms/utils';",
+                "import { useStore } from '@gravityforms/react-utils';",
+                "filter(useStore);",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "test.js") as TransformResult;
+
+            expect(result?.code).toBe(
+                [
+                    "const filter = gform.utils.filter;",
+                    "const useStore = gform.utils.react.useStore;",
+                    "filter(useStore);",
+                ].join("\n"),
+            );
+        });
+
+        it("should throw on unknown presets", () => {
+            expect(() => wordpressPlugin({ presets: ["acf" as any] })).toThrow(
+                'Unknown external preset "acf". Available presets: woocommerce, gravityforms.',
+            );
+        });
+
+        it("should expose presets as plain mappings", () => {
+            expect(EXTERNAL_PRESETS.woocommerce["@woocommerce/block-data"]).toEqual({
+                global: ["wc", "wcBlocksData"],
+                handle: "wc-blocks-data-store",
+            });
+        });
+    });
+
+    describe("custom request callbacks", () => {
+        const acmePlugin = () =>
+            wordpressPlugin({
+                requestToExternal: (request) =>
+                    request.startsWith("@acme/") ? ["acme", request.slice(6)] : undefined,
+                requestToHandle: (request) =>
+                    request.startsWith("@acme/") ? `acme-${request.slice(6)}` : undefined,
+            });
+
+        it("should transform imports mapped by requestToExternal", () => {
+            const plugin = acmePlugin();
+            const code = `import { Card } from '@acme/ui';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe("const Card = acme.ui.Card;");
+        });
+
+        it("should mark requests mapped by requestToExternal as external", () => {
+            const plugin = acmePlugin();
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("@acme/ui")).toBe(true);
+            expect(external("@acme/data")).toBe(true);
+            expect(external("@other/ui")).toBe(false);
+            expect((plugin.resolveId as any)("@acme/ui", "index.ts")).toEqual({
+                id: "@acme/ui",
+                external: true,
+            });
+        });
+
+        it("should use requestToHandle for the manifest", () => {
+            const plugin = acmePlugin();
+
+            (plugin.transform as any)?.(`import '@acme/ui';`, "index.ts");
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.ts"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["acme-ui"], null, 2),
+                }),
+            );
+        });
+
+        it("should fall back to the defaults when callbacks return undefined", () => {
+            const plugin = acmePlugin();
+            const code = `import { useState } from '@wordpress/element';`;
+
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
+
+            expect(result?.code).toBe("const useState = wp.element.useState;");
+        });
+
+        it("should accept string globals", () => {
+            const plugin = wordpressPlugin({
+                requestToExternal: (request) => (request === "chart.js" ? "Chart" : undefined),
+            });
+
+            const result = (plugin.transform as any)?.(
+                `import Chart from 'chart.js';`,
+                "test.jsx",
+            ) as TransformResult;
+
+            expect(result?.code).toBe("const Chart = globalThis.Chart;");
+        });
+
+        it("should bundle requests when requestToExternal returns false", () => {
+            const plugin = wordpressPlugin({
+                requestToExternal: (request) =>
+                    request === "@wordpress/components" ? false : undefined,
+            });
+            const code = `import { Button } from '@wordpress/components';`;
+
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(result).toBeNull();
+            expect(external("@wordpress/components")).toBe(false);
+        });
+    });
+
+    describe("block hmr", () => {
+        const blockModule = [
+            "import { registerBlockType } from '@wordpress/blocks';",
+            "registerBlockType('acme/hero', { edit: window.edit });",
+        ].join("\n");
+
+        it("should make block modules hot-reloadable during development", () => {
+            const plugin = createDevPlugin();
+
+            const result = (plugin.transform as any)(blockModule, "blocks/hero.js");
+
+            expect(result.code).toMatch(/^const __wp_hmr_blocks = /);
+            expect(result.code).toContain("wp.blocks.unregisterBlockType(name)");
+            expect(result.code).toContain("import.meta.hot.accept();");
+        });
+
+        it("should not add block hmr to builds", () => {
+            (plugin.configResolved as any)({ root: process.cwd(), command: "build" });
+
+            const result = (plugin.transform as any)(blockModule, "blocks/hero.js");
+
+            expect(result.code).not.toContain("__wp_hmr_blocks");
+        });
+
+        it("should not add block hmr to modules that don't register blocks", () => {
+            const plugin = createDevPlugin();
+
+            const result = (plugin.transform as any)(
+                `import { getBlockType } from '@wordpress/blocks';`,
+                "blocks/utils.js",
+            );
+
+            expect(result.code).not.toContain("__wp_hmr_blocks");
+        });
+
+        it("should not add block hmr when disabled", () => {
+            const plugin = createDevPlugin({ hmr: { blocks: false } });
+
+            const result = (plugin.transform as any)(blockModule, "blocks/hero.js");
+
+            expect(result.code).not.toContain("__wp_hmr_blocks");
+        });
+
+        it("should re-register blocks with their new settings on update", () => {
+            const plugin = createDevPlugin();
+            const code = (plugin.transform as any)(blockModule, "blocks/hero.js").code.replace(
+                /import\.meta\.hot/g,
+                "hot",
+            );
+
+            const registry = new Map<string, unknown>();
+            const wp = {
+                blocks: {
+                    registerBlockType: vi.fn((name: string, settings: unknown) => {
+                        if (registry.has(name)) throw new Error(`${name} is already registered`);
+                        registry.set(name, settings);
+                    }),
+                    unregisterBlockType: vi.fn((name: string) => registry.delete(name)),
+                    getBlockTypes: () => [...registry.keys()].map((name) => ({ name })),
+                },
+            };
+            const hot = {
+                data: {} as Record<string, unknown>,
+                disposers: [] as Array<(data: Record<string, unknown>) => void>,
+                dispose(callback: (data: Record<string, unknown>) => void) {
+                    this.disposers.push(callback);
+                },
+                accept: vi.fn(),
+            };
+            const window = Object.assign(new EventTarget(), { edit: "" });
+            const onBlockUpdate = vi.fn();
+            const run = (edit: string) => {
+                hot.disposers.forEach((dispose) => dispose(hot.data));
+                hot.disposers = [];
+                window.edit = edit;
+                new Function("wp", "hot", "window", code)(wp, hot, window);
+            };
+
+            window.addEventListener("wordpress:block-update", (event) =>
+                onBlockUpdate((event as CustomEvent).detail),
+            );
+
+            wp.blocks.registerBlockType("core/paragraph", {});
+            run("first");
+            run("second");
+
+            expect(registry.get("acme/hero")).toEqual({ edit: "second" });
+            expect(registry.has("core/paragraph")).toBe(true);
+            expect(wp.blocks.unregisterBlockType).toHaveBeenCalledOnce();
+            expect(wp.blocks.unregisterBlockType).toHaveBeenCalledWith("acme/hero");
+            expect(hot.accept).toHaveBeenCalledTimes(2);
+            expect(onBlockUpdate).toHaveBeenCalledOnce();
+            expect(onBlockUpdate).toHaveBeenCalledWith({ blocks: ["acme/hero"] });
+        });
+    });
+
+    describe("react refresh", () => {
+        const componentModule = [
+            "import { useState } from '@wordpress/element';",
+            "export default function Panel() {",
+            "    const [open] = useState(false);",
+            "    return open;",
+            "}",
+        ].join("\n");
+
+        it("should enable the JSX refresh transform when serving", () => {
+            const plugin = wordpressPlugin({ hmr: { reactRefresh: true } });
+
+            expect((plugin.config as any)({}, { command: "serve" }).oxc.jsx.refresh).toBe(true);
+            expect((plugin.config as any)({}, { command: "build" }).oxc.jsx).not.toHaveProperty(
+                "refresh",
+            );
+        });
+
+        it("should not enable the JSX refresh transform by default", () => {
+            expect((plugin.config as any)({}, { command: "serve" }).oxc.jsx).not.toHaveProperty(
+                "refresh",
+            );
+        });
+
+        it("should declare refresh functions and accept component modules", () => {
+            const plugin = createDevPlugin({ hmr: { reactRefresh: true } });
+
+            const result = (plugin.transform as any)(componentModule, "/src/panel.jsx");
+
+            expect(result.code).toMatch(/^function \$RefreshReg\$\(type, name\)/);
+            expect(result.code).toContain("register(type, \"/src/panel.jsx\" + ' ' + name)");
+            expect(result.code).toContain("function $RefreshSig$()");
+            expect(result.code).toContain("import.meta.hot.accept(");
+        });
+
+        it("should not accept updates of modules without exports", () => {
+            const plugin = createDevPlugin({ hmr: { reactRefresh: true } });
+
+            const result = (plugin.transform as any)(
+                "import { render } from '@wordpress/element';\nrender(null, document.body);",
+                "/src/editor.tsx",
+            );
+
+            expect(result.code).toContain("function $RefreshReg$");
+            expect(result.code).not.toContain("import.meta.hot.accept(");
+        });
+
+        it("should only apply to jsx and tsx modules while serving", () => {
+            const plugin = createDevPlugin({ hmr: { reactRefresh: true } });
+            const build = wordpressPlugin({ hmr: { reactRefresh: true } });
+
+            expect((plugin.transform as any)(componentModule, "/src/panel.js").code).not.toContain(
+                "$RefreshReg$",
+            );
+            expect((build.transform as any)(componentModule, "/src/panel.jsx").code).not.toContain(
+                "$RefreshReg$",
+            );
+        });
+
+        it("should refresh component modules and invalidate others", () => {
+            vi.useFakeTimers();
+
+            const plugin = createDevPlugin({ hmr: { reactRefresh: true } });
+            const code = (plugin.transform as any)(componentModule, "/src/panel.jsx").code;
+            const epilogue = code
+                .slice(code.indexOf("if (import.meta.hot) {"))
+                .replace(/import\.meta\.hot/g, "hot");
+
+            const runtime = {
+                isLikelyComponentType: (value: unknown) => typeof value === "function",
+                performReactRefresh: vi.fn(),
+            };
+            const hot = { accept: vi.fn(), invalidate: vi.fn() };
+
+            new Function("hot", "window", epilogue)(hot, { ReactRefreshRuntime: runtime });
+
+            const [accept] = hot.accept.mock.calls[0];
+
+            accept({ default: () => null });
+            vi.runAllTimers();
+
+            expect(runtime.performReactRefresh).toHaveBeenCalledOnce();
+            expect(hot.invalidate).not.toHaveBeenCalled();
+
+            accept({ default: () => null, config: {} });
+
+            expect(hot.invalidate).toHaveBeenCalledOnce();
+
+            vi.useRealTimers();
+        });
+    });
+
+    describe("source maps", () => {
+        it("should generate a source map for the transformed module", () => {
+            const code = `import { useState } from '@wordpress/element';\nconst value = useState();`;
+
+            const result = (plugin.transform as any)?.(code, "src/test.tsx") as TransformResult;
+            const map = result?.map as any;
+
+            expect(map).toBeTruthy();
+            expect(map.sources).toEqual(["src/test.tsx"]);
+            expect(map.sourcesContent).toEqual([code]);
+        });
+
+        it("should map code after multiline imports back to the original lines", () => {
+            const code = [
+                "import {",
+                "    useState,",
+                "    useEffect,",
+                "} from '@wordpress/element';",
+                "const value = useState();",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "src/test.tsx") as TransformResult;
+            const lines = String(result?.code).split("\n");
+            const line = lines.findIndex((l) => l.startsWith("const value")) + 1;
+
+            const position = originalPositionFor(new TraceMap(result?.map as any), {
+                line,
+                column: "const ".length,
+            });
+
+            expect(position.line).toBe(5);
+            expect(position.column).toBe("const ".length);
+        });
+    });
+
+    describe("script modules", () => {
+        it("should bundle script modules listed in bundle", () => {
+            const plugin = wordpressPlugin({ bundle: ["@wordpress/interactivity"] });
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            (plugin.transform as any)(
+                "import { store } from '@wordpress/interactivity';",
+                "view.js",
+            );
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", ["view.js"])),
+            );
+
+            expect(external("@wordpress/interactivity")).toBe(false);
+            expect(external("@wordpress/interactivity-router")).toBe(true);
+            expect((plugin.resolveId as any)("@wordpress/interactivity", "view.js")).toBeNull();
+            expect(files.map((file) => [file.name, JSON.parse(file.source)])).toEqual([
+                ["view.deps.json", []],
+            ]);
+        });
+
+        it("should keep script module imports as ES imports", () => {
+            const code = [
+                "import { store, getContext } from '@wordpress/interactivity';",
+                "export { navigate } from '@wordpress/interactivity-router';",
+                "const router = import('@wordpress/interactivity-router');",
+            ].join("\n");
+
+            const result = (plugin.transform as any)?.(code, "view.js") as TransformResult;
+
+            expect(result).toBeNull();
+        });
+
+        it("should mark script modules as external", () => {
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("@wordpress/interactivity")).toBe(true);
+            expect(external("@wordpress/interactivity-router")).toBe(true);
+            expect((plugin.resolveId as any)("@wordpress/interactivity", "view.js")).toEqual({
+                id: "@wordpress/interactivity",
+                external: true,
+            });
+        });
+
+        it("should emit static and dynamic module dependencies", () => {
+            (plugin.transform as any)(
+                [
+                    "import { store } from '@wordpress/interactivity';",
+                    "const load = () => import('@wordpress/interactivity-router');",
+                ].join("\n"),
+                "view.js",
+            );
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", ["view.js"])),
+            );
+
+            expect(JSON.parse(files[0].source)).toEqual([
+                { id: "@wordpress/interactivity", import: "static" },
+                { id: "@wordpress/interactivity-router", import: "dynamic" },
+            ]);
+        });
+
+        it("should treat imports in dynamically imported chunks as dynamic", () => {
+            (plugin.transform as any)(`import '@wordpress/interactivity';`, "view.js");
+            (plugin.transform as any)(`import '@wordpress/interactivity-router';`, "lazy.js");
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(
+                    createChunk("view", ["view.js"], { dynamicImports: ["lazy.js"] }),
+                    createChunk("lazy", ["lazy.js"], { isEntry: false }),
+                ),
+            );
+
+            expect(JSON.parse(files[0].source)).toEqual([
+                { id: "@wordpress/interactivity", import: "static" },
+                { id: "@wordpress/interactivity-router", import: "dynamic" },
+            ]);
+        });
+
+        it("should prefer a static import over a dynamic one", () => {
+            (plugin.transform as any)(`import '@wordpress/interactivity-router';`, "view.js");
+            (plugin.transform as any)(`import('@wordpress/interactivity-router');`, "other.js");
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", ["other.js", "view.js"])),
+            );
+
+            expect(JSON.parse(files[0].source)).toEqual([
+                { id: "@wordpress/interactivity-router", import: "static" },
+            ]);
+        });
+
+        it("should treat entries matching the scriptModules pattern as script modules", () => {
+            const plugin = wordpressPlugin({ scriptModules: /view/ });
+
+            (plugin.transform as any)(`import '@wordpress/dom-ready';`, "shared.js");
+
+            const { files, warn } = runGenerateBundle(
+                plugin,
+                createBundle(
+                    createChunk("blocks/view", ["shared.js"]),
+                    createChunk("blocks/editor", ["shared.js"]),
+                ),
+            );
+
+            expect(files.map((file) => JSON.parse(file.source))).toEqual([[], ["wp-dom-ready"]]);
+            expect(warn).toHaveBeenCalledOnce();
+        });
+
+        it("should warn when a script module uses scripts", () => {
+            (plugin.transform as any)(
+                [
+                    "import { store } from '@wordpress/interactivity';",
+                    "import { __ } from '@wordpress/i18n';",
+                ].join("\n"),
+                "view.js",
+            );
+
+            const { files, warn } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", ["view.js"])),
+            );
+
+            expect(JSON.parse(files[0].source)).toEqual([
+                { id: "@wordpress/interactivity", import: "static" },
+            ]);
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining("wp-i18n"));
+        });
+
+        it("should read the a11y global right away for non-ES outputs", () => {
+            const code = "import { speak } from '@wordpress/a11y';\nspeak('Saved');";
+
+            (plugin.configResolved as any)({ build: { lib: { formats: ["es", "umd"] } } });
+            const result = (plugin.transform as any)(code, "notice.js") as TransformResult;
+
+            expect(result.code).toBe("const speak = wp.a11y.speak;\nspeak('Saved');");
+        });
+
+        it("should keep a11y imports until chunks are rendered", () => {
+            const code = [
+                "import { store } from '@wordpress/interactivity';",
+                "import { speak } from '@wordpress/a11y';",
+            ].join("\n");
+
+            const result = (plugin.transform as any)(code, "view.js") as TransformResult;
+
+            const { files, warn } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", ["view.js"])),
+            );
+
+            expect(result).toBeNull();
+            expect(JSON.parse(files[0].source)).toEqual([
+                { id: "@wordpress/a11y", import: "dynamic" },
+                { id: "@wordpress/interactivity", import: "static" },
+            ]);
+            expect(warn).not.toHaveBeenCalled();
+        });
+
+        it("should read a11y from its global during development", () => {
+            (plugin.configResolved as any)({ root: process.cwd(), command: "serve" });
+
+            const result = (plugin.transform as any)(
+                `import { speak } from '@wordpress/a11y';`,
+                "notice.js",
+            ) as TransformResult;
+
+            expect(result.code).toBe("const speak = wp.a11y.speak;");
+        });
+
+        it("should not treat entries that only import a11y as script modules", () => {
+            (plugin.transform as any)(`import { speak } from '@wordpress/a11y';`, "notice.js");
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("notice", ["notice.js"])),
+            );
+
+            expect(JSON.parse(files[0].source)).toEqual(["wp-a11y"]);
+        });
+
+        it("should read a11y from its global in chunks classic scripts load", () => {
+            (plugin.transform as any)(`import '@wordpress/interactivity';`, "view.js");
+            (plugin.transform as any)(`import { speak } from '@wordpress/a11y';`, "notice.js");
+
+            const code = [
+                'import { speak as e } from "@wordpress/a11y";',
+                'import("@wordpress/a11y");',
+            ].join("\n");
+            const view = { ...createChunk("view", ["view.js"]), imports: ["@wordpress/a11y"] };
+            const notice = {
+                ...createChunk("notice", ["notice.js"]),
+                imports: ["@wordpress/a11y"],
+            };
+            const meta = { chunks: { "view.js": view, "notice.js": notice } };
+
+            expect((plugin.renderChunk as any)(code, view, {}, meta)).toBeNull();
+            expect((plugin.renderChunk as any)(code, notice, {}, meta).code).toBe(
+                [
+                    "const e = wp.a11y.speak;",
+                    "Promise.resolve({ ...wp.a11y, default: wp.a11y });",
+                ].join("\n"),
+            );
+        });
+
+        it("should warn when a script module shares a11y with classic scripts", () => {
+            (plugin.transform as any)(`import '@wordpress/interactivity';`, "view.js");
+            (plugin.transform as any)(`import { speak } from '@wordpress/a11y';`, "shared.js");
+
+            const view = createChunk("view", ["view.js"], { imports: ["shared.js"] });
+            const notice = createChunk("notice", [], { imports: ["shared.js"] });
+            const shared = {
+                ...createChunk("shared", ["shared.js"], { isEntry: false }),
+                imports: ["@wordpress/a11y"],
+            };
+            const bundle = createBundle(view, notice, shared);
+
+            (plugin.renderChunk as any)("", shared, {}, { chunks: bundle });
+
+            const { warn } = runGenerateBundle(plugin, bundle);
+
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining("wp-a11y"));
+        });
+
+        it("should write module dependencies to asset.php files", () => {
+            const plugin = wordpressPlugin({ outputFormat: "php" });
+
+            (plugin.transform as any)(`import '@wordpress/interactivity';`, "view.js");
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", ["view.js"])),
+            );
+
+            expect(files[0].source).toMatch(
+                /^<\?php return \['dependencies' => \[\['id' => '@wordpress\/interactivity', 'import' => 'static'\]\], 'version' => '[a-f0-9]{20}'\];\n$/,
+            );
+        });
+    });
+
+    describe("dependency tracking", () => {
+        it("should track WordPress dependencies and generate manifest", () => {
+            const code = `
+            import { useState } from '@wordpress/element';
+            import apiFetch from '@wordpress/api-fetch';
+          `.trim();
+
+            // Transform to trigger dependency tracking
+            (plugin.transform as any)?.(code, "test.jsx");
+
+            // Mock emitFile to capture dependencies
+            const emitFile = vi.fn();
+            if (plugin.generateBundle && typeof plugin.generateBundle === "function") {
+                const context = {
+                    emitFile,
+                    meta: {},
+                    /* eslint-disable @typescript-eslint/no-unused-vars */
+                    warn: (_message: string) => {
+                        /* intentionally empty for tests */
+                    },
+                    error: (_message: string) => {
+                        /* intentionally empty for tests */
+                    },
+                    /* eslint-enable @typescript-eslint/no-unused-vars */
+                };
+
+                plugin.generateBundle.call(
+                    context as any,
+                    {} as any,
+                    createBundle(createChunk("editor", ["test.jsx"])),
+                    false,
+                );
+            }
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    name: "editor.deps.json",
+                    originalFileName: "editor.deps.json",
+                    type: "asset",
+                    source: JSON.stringify(["wp-api-fetch", "wp-element"], null, 2),
+                }),
+            );
+        });
+
+        it("should not track dependencies for type-only imports", () => {
+            const code = `
+            import type { BlockConfiguration } from '@wordpress/blocks';
+            import { type BlockEditProps } from '@wordpress/block-editor';
+            import { useState } from '@wordpress/element';
+            useState();
+          `.trim();
+
+            (plugin.transform as any)?.(code, "index.ts");
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.ts"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    source: JSON.stringify(["wp-element"], null, 2),
+                }),
+            );
+        });
+    });
+
+    describe("style dependencies", () => {
+        it("should resolve WordPress stylesheets to an empty module", () => {
+            const id = (plugin.resolveId as any)(
+                "@wordpress/components/build-style/style.css",
+                "index.js",
+            );
+
+            expect(id).toBe("\0wordpress-style:@wordpress/components/build-style/style.css");
+            expect((plugin.load as any)(id)).toBe("");
+        });
+
+        it("should not mark WordPress stylesheets as external scripts", () => {
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("@wordpress/components/build-style/style.css")).toBe(false);
+            expect(external("@wordpress/dataviews/build-style/style.css")).toBe(false);
+        });
+
+        it("should map stylesheets to core style handles", () => {
+            const stylesheets = [
+                "@wordpress/block-editor/build-style/style.css",
+                "@wordpress/block-editor/build-style/style-rtl.css",
+                "@wordpress/block-library/build-style/theme.css",
+                "@wordpress/block-library/build-style/editor.css",
+            ];
+
+            for (const stylesheet of stylesheets) {
+                (plugin.resolveId as any)(stylesheet, "index.js");
+            }
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("editor", ["index.js"])),
+            );
+
+            expect(files[0]).toEqual(
+                expect.objectContaining({
+                    name: "editor.style-deps.json",
+                    source: JSON.stringify(
+                        ["wp-block-editor", "wp-block-library-theme", "wp-edit-blocks"],
+                        null,
+                        2,
+                    ),
+                }),
+            );
+        });
+
+        it("should bundle stylesheets of bundled packages", () => {
+            const plugin = wordpressPlugin({ bundle: ["@wordpress/components"] });
+
+            expect(
+                (plugin.resolveId as any)("@wordpress/dataviews/build-style/style.css", "index.js"),
+            ).toBeNull();
+            expect(
+                (plugin.resolveId as any)(
+                    "@wordpress/components/build-style/style.css",
+                    "index.js",
+                ),
+            ).toBeNull();
+            expect(
+                (plugin.resolveId as any)(
+                    "@wordpress/components/build-style/unknown.css",
+                    "index.js",
+                ),
+            ).toBeNull();
+        });
+
+        it("should remove stylesheet imports from CSS files", () => {
+            const code = [
+                '@import "@wordpress/components/build-style/style.css";',
+                "@import url('@wordpress/block-editor/build-style/style.css');",
+                '@import "./local.css";',
+                ".block { color: red; }",
+            ].join("\n");
+
+            const result = (plugin.transform as any)(code, "editor.css") as TransformResult;
+
+            expect(result?.code).toBe('@import "./local.css";\n.block { color: red; }');
+
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("editor", ["editor.css"])),
+            );
+
+            expect(files[0].source).toBe(
+                JSON.stringify(["wp-block-editor", "wp-components"], null, 2),
+            );
+        });
+
+        it("should not emit a style manifest without style dependencies", () => {
+            const { files } = runGenerateBundle(plugin, createBundle(createChunk("editor", [])));
+
+            expect(files.map((file) => file.name)).toEqual(["editor.deps.json"]);
+        });
+    });
+
+    describe("per-entry manifests", () => {
+        const readManifests = (bundle: Rolldown.OutputBundle) =>
+            Object.fromEntries(
+                runGenerateBundle(plugin, bundle).files.map((file) => [
+                    file.name,
+                    JSON.parse(file.source),
+                ]),
+            );
+
+        it("should emit a manifest for each entry", () => {
+            (plugin.transform as any)(`import '@wordpress/block-editor';`, "editor.ts");
+            (plugin.transform as any)(`import '@wordpress/dom-ready';`, "app.ts");
+
+            const manifests = readManifests(
+                createBundle(createChunk("editor", ["editor.ts"]), createChunk("app", ["app.ts"])),
+            );
+
+            expect(manifests).toEqual({
+                "editor.deps.json": ["wp-block-editor"],
+                "app.deps.json": ["wp-dom-ready"],
+            });
+        });
+
+        it("should not emit manifests for stylesheet entries", () => {
+            (plugin.transform as any)(`import '@wordpress/dom-ready';`, "app.ts");
+
+            const manifests = readManifests(
+                createBundle(
+                    createChunk("app", ["app.ts"], { facadeModuleId: "app.ts" }),
+                    createChunk("style", ["app.css"], { facadeModuleId: "app.css" }),
+                    createChunk("theme", ["theme.scss"], { facadeModuleId: "theme.scss?inline" }),
+                ),
+            );
+
+            expect(manifests).toEqual({ "app.deps.json": ["wp-dom-ready"] });
+        });
+
+        it("should include dependencies of shared and dynamically imported chunks", () => {
+            (plugin.transform as any)(`import '@wordpress/i18n';`, "shared.ts");
+            (plugin.transform as any)(`import '@wordpress/editor';`, "panel.ts");
+            (plugin.transform as any)(`import '@wordpress/dom-ready';`, "app.ts");
+
+            const manifests = readManifests(
+                createBundle(
+                    createChunk("app", ["app.ts"], {
+                        imports: ["shared.js", "@wordpress/hooks"],
+                        dynamicImports: ["panel.js"],
+                    }),
+                    createChunk("shared", ["shared.ts"], { isEntry: false }),
+                    createChunk("panel", ["panel.ts"], { isEntry: false }),
+                ),
+            );
+
+            expect(manifests).toEqual({
+                "app.deps.json": ["wp-dom-ready", "wp-editor", "wp-i18n"],
+            });
+        });
 
-        return null;
-    }),
-}));
+        it("should sort dependencies alphabetically", () => {
+            (plugin.transform as any)(
+                `import '@wordpress/url';\nimport '@wordpress/api-fetch';\nimport '@wordpress/i18n';`,
+                "app.ts",
+            );
 
-import { wordpressPlugin } from "../src/index.js";
-import { shouldInjectHmr, createHmrCode } from "../src/externals/hmr.js";
+            const manifests = readManifests(createBundle(createChunk("app", ["app.ts"])));
 
-describe("wordpressPlugin", () => {
-    let plugin: Plugin;
+            expect(manifests["app.deps.json"]).toEqual(["wp-api-fetch", "wp-i18n", "wp-url"]);
+        });
 
-    beforeEach(() => {
-        plugin = wordpressPlugin();
+        it("should drop dependencies removed from a module when it is transformed again", () => {
+            (plugin.transform as any)(
+                `import '@wordpress/components';\nimport '@wordpress/i18n';`,
+                "app.ts",
+            );
+            (plugin.transform as any)(`import '@wordpress/i18n';`, "app.ts");
+
+            const manifests = readManifests(createBundle(createChunk("app", ["app.ts"])));
+
+            expect(manifests["app.deps.json"]).toEqual(["wp-i18n"]);
+        });
+
+        it("should reset dependency tracking at the start of each build", () => {
+            (plugin.transform as any)(`import '@wordpress/components';`, "app.ts");
+            (plugin.buildStart as any)();
+
+            const manifests = readManifests(createBundle(createChunk("app", ["app.ts"])));
+
+            expect(manifests["app.deps.json"]).toEqual([]);
+        });
+
+        it("should record dependencies resolved for an importer", () => {
+            (plugin.resolveId as any)("@wordpress/hooks", "app.vue");
+
+            const manifests = readManifests(createBundle(createChunk("app", ["app.vue"])));
+
+            expect(manifests).toEqual({ "app.deps.json": ["wp-hooks"] });
+        });
     });
 
-    describe("import transformation", () => {
-        it("should transform named imports", () => {
-            const code = `import { useState, useEffect } from '@wordpress/element';`;
+    describe("polyfill injection", () => {
+        const getManifests = (plugin: Plugin, bundle: Rolldown.OutputBundle) =>
+            runGenerateBundle(plugin, bundle).files.map((file) => JSON.parse(file.source));
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+        it("should not add wp-polyfill by default", () => {
+            const manifests = getManifests(
+                plugin,
+                createBundle(createChunk("editor", [], { code: "Promise.resolve();" })),
+            );
 
-            expect(result).toBeDefined();
-            expect(result?.code).toContain("const useState = wp.element.useState;");
-            expect(result?.code).toContain("const useEffect = wp.element.useEffect;");
+            expect(manifests).toEqual([[]]);
         });
 
-        it("should transform aliased named imports", () => {
-            const code = `import { useState as useStateWP } from '@wordpress/element';`;
+        it("should add wp-polyfill to every entry when enabled", () => {
+            const plugin = wordpressPlugin({ injectPolyfill: true });
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            (plugin.transform as any)(`import '@wordpress/i18n';`, "index.ts");
 
-            expect(result).toBeDefined();
-            expect(result?.code).toContain("const useStateWP = wp.element.useState;");
+            const manifests = getManifests(
+                plugin,
+                createBundle(createChunk("editor", ["index.ts"]), createChunk("app", [])),
+            );
+
+            expect(manifests).toEqual([["wp-i18n", "wp-polyfill"], ["wp-polyfill"]]);
         });
 
-        it("should transform namespace imports", () => {
-            const code = `import * as element from '@wordpress/element';`;
+        it("should only add wp-polyfill to entries using polyfilled globals in auto mode", () => {
+            const plugin = wordpressPlugin({ injectPolyfill: "auto" });
+
+            (plugin.transform as any)("const a = new Map();", "editor.ts");
+            (plugin.transform as any)(
+                [
+                    "import { Set } from 'immutable';",
+                    "const label = 'Promise';",
+                    "const options = { Symbol: true };",
+                    "type Deferred = Promise<void>;",
+                    "wp.components.Map;",
+                    "Set.of(1);",
+                ].join("\n"),
+                "app.ts",
+            );
+            (plugin.transform as any)("run();", "view.ts");
+            (plugin.transform as any)("Object.fromEntries([]);", "shared.ts");
+
+            const manifests = getManifests(
+                plugin,
+                createBundle(
+                    createChunk("editor", ["editor.ts"]),
+                    createChunk("app", ["app.ts"], { code: "Promise; Map; Symbol;" }),
+                    createChunk("view", ["view.ts"], { imports: ["shared.js"] }),
+                    createChunk("shared", ["shared.ts"], { isEntry: false }),
+                ),
+            );
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            expect(manifests).toEqual([["wp-polyfill"], [], ["wp-polyfill"]]);
+        });
 
-            expect(result).toBeDefined();
-            expect(result?.code).toContain("const element = wp.element;");
+        it("should reset polyfill detection at the start of each build", () => {
+            const plugin = wordpressPlugin({ injectPolyfill: "auto" });
+
+            (plugin.transform as any)("Promise.resolve();", "editor.ts");
+            (plugin.buildStart as any)();
+
+            const manifests = getManifests(
+                plugin,
+                createBundle(createChunk("editor", ["editor.ts"])),
+            );
+
+            expect(manifests).toEqual([[]]);
         });
 
-        it("should transform default imports", () => {
-            const code = `import apiFetch from '@wordpress/api-fetch';`;
+        it("should not add wp-polyfill to script modules", () => {
+            const plugin = wordpressPlugin({ injectPolyfill: true, scriptModules: /view/ });
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const manifests = getManifests(plugin, createBundle(createChunk("view", [])));
 
-            expect(result).toBeDefined();
-            expect(result?.code).toContain("const apiFetch = wp.apiFetch;");
+            expect(manifests).toEqual([[]]);
         });
+    });
 
-        it("should transform side-effect imports", () => {
-            const code = `import '@wordpress/block-editor';`;
+    describe("asset.php output", () => {
+        it("should emit an asset.php file next to each entry script", () => {
+            const plugin = wordpressPlugin({ outputFormat: "php" });
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            (plugin.transform as any)(
+                `import { registerBlockType } from '@wordpress/blocks';\nimport '@wordpress/i18n';`,
+                "index.js",
+            );
 
-            expect(result).toBeDefined();
-            expect(result?.code).toBe("");
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("blocks/index", ["index.js"], { code: "block();" })),
+            );
+
+            expect(files).toHaveLength(1);
+            expect(files[0].fileName).toBe("blocks/index.asset.php");
+            expect(files[0].source).toMatch(
+                /^<\?php return \['dependencies' => \['wp-blocks', 'wp-i18n'\], 'version' => '[a-f0-9]{20}'\];\n$/,
+            );
         });
 
-        it("should handle multiple imports", () => {
-            const code = `
-            import { useState } from '@wordpress/element';
-            import apiFetch from '@wordpress/api-fetch';
-            import * as blocks from '@wordpress/blocks';
-          `.trim();
+        it("should not emit asset.php files for stylesheet entries", () => {
+            const plugin = wordpressPlugin({ outputFormat: "php" });
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const { files } = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("style", ["app.css"], { facadeModuleId: "app.css" })),
+            );
 
-            expect(result).toBeDefined();
-            expect(result?.code).toContain("const useState = wp.element.useState;");
-            expect(result?.code).toContain("const apiFetch = wp.apiFetch;");
-            expect(result?.code).toContain("const blocks = wp.blocks;");
+            expect(files).toEqual([]);
         });
 
-        it("should only transform files with supported extensions", () => {
-            const code = `import { useState } from '@wordpress/element';`;
+        it("should change the version when the bundle content changes", () => {
+            const plugin = wordpressPlugin({ outputFormat: "php" });
+
+            const [first] = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("index", [], { code: "one();" })),
+            ).files;
+            const [second] = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("index", [], { code: "two();" })),
+            ).files;
+            const [third] = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("index", [], { code: "two();" })),
+            ).files;
+
+            expect(first.source).not.toBe(second.source);
+            expect(second.source).toBe(third.source);
+        });
 
-            const result = (plugin.transform as any)?.(code, "test.md");
+        it("should include shared chunk content in the version", () => {
+            const plugin = wordpressPlugin({ outputFormat: "php" });
 
-            expect(result).toBeNull();
+            const build = (shared: string) =>
+                runGenerateBundle(
+                    plugin,
+                    createBundle(
+                        createChunk("index", [], { code: "main();", imports: ["shared.js"] }),
+                        createChunk("shared", [], { code: shared, isEntry: false }),
+                    ),
+                ).files[0].source;
+
+            expect(build("a();")).not.toBe(build("b();"));
         });
 
-        it("should preserve non-WordPress imports", () => {
-            const code = `
-            import { useState } from '@wordpress/element';
-            import React from 'react';
-            import styles from './styles.css';
-          `.trim();
+        it("should emit an empty dependency list for entries without externals", () => {
+            const plugin = wordpressPlugin({ outputFormat: "php" });
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const [file] = runGenerateBundle(
+                plugin,
+                createBundle(createChunk("view", [], { code: "view();" })),
+            ).files;
 
-            expect(result).toBeDefined();
-            expect(result?.code).toContain("const useState = wp.element.useState;");
-            expect(result?.code).toContain("import React from 'react';");
-            expect(result?.code).toContain("import styles from './styles.css';");
+            expect(file.fileName).toBe("view.asset.php");
+            expect(file.source).toContain("'dependencies' => []");
         });
     });
 
-    describe("dependency tracking", () => {
-        it("should track WordPress dependencies and generate manifest", () => {
-            const code = `
-            import { useState } from '@wordpress/element';
-            import apiFetch from '@wordpress/api-fetch';
-          `.trim();
+    describe("editor hmr", () => {
+        const getHmrCode = (plugin: Plugin) => {
+            expect((plugin.resolveId as any)(HMR_MODULE_ID)).toBe(RESOLVED_HMR_MODULE_ID);
 
-            // Transform to trigger dependency tracking
-            (plugin.transform as any)?.(code, "test.tsx");
+            return (plugin.load as any)(RESOLVED_HMR_MODULE_ID) as string;
+        };
 
-            // Mock emitFile to capture dependencies
-            const emitFile = vi.fn();
-            if (plugin.generateBundle && typeof plugin.generateBundle === "function") {
-                const context = {
-                    emitFile,
-                    meta: {},
-                    /* eslint-disable @typescript-eslint/no-unused-vars */
-                    warn: (_message: string) => {
-                        /* intentionally empty for tests */
-                    },
-                    error: (_message: string) => {
-                        /* intentionally empty for tests */
-                    },
-                    /* eslint-enable @typescript-eslint/no-unused-vars */
-                };
+        it("should import the hmr client from editor entries", () => {
+            const result = (createDevPlugin().transform as any)("const x = 1;", "src/editor.js");
 
-                plugin.generateBundle.call(context as any, {} as any, {}, false);
-            }
+            expect(result.code).toMatch(/^import "virtual:wordpress-hmr";\n/);
+        });
 
-            expect(emitFile).toHaveBeenCalledWith(
-                expect.objectContaining({
-                    name: "editor.deps.json",
-                    originalFileName: "editor.deps.json",
-                    type: "asset",
-                    source: JSON.stringify(["wp-element", "wp-api-fetch"], null, 2),
-                }),
+        it("should import the hmr client only once", () => {
+            const result = (createDevPlugin().transform as any)(
+                `import { onCssUpdate } from "virtual:wordpress-hmr";`,
+                "src/editor.js",
             );
+
+            expect(result).toBeNull();
+        });
+
+        it("should not import the hmr client into other modules", () => {
+            const result = (createDevPlugin().transform as any)("const x = 1;", "src/app.js");
+
+            expect(result).toBeNull();
+        });
+
+        it("should not import the hmr client into builds", () => {
+            const result = (plugin.transform as any)("const x = 1;", "src/editor.js");
+
+            expect(result).toBeNull();
+        });
+
+        it("should load no-op hooks in builds", () => {
+            const code = getHmrCode(plugin);
+
+            expect(code).toContain("export const onCssUpdate = subscribe;");
+            expect(code).not.toContain("import.meta.hot");
+        });
+
+        it("should update every same-origin iframe by default", () => {
+            expect(getHmrCode(createDevPlugin())).toContain('iframe.matches("iframe")');
+        });
+
+        it("should use the iframes option", () => {
+            const plugin = createDevPlugin({ hmr: { iframes: [".a iframe", ".b iframe"] } });
+
+            expect(getHmrCode(plugin)).toContain('iframe.matches(".a iframe, .b iframe")');
+        });
+
+        it("should still support the deprecated iframeName option", () => {
+            const plugin = createDevPlugin({ hmr: { iframeName: "my-canvas" } });
+
+            expect(getHmrCode(plugin)).toContain('iframe.matches("iframe[name=\\"my-canvas\\"]")');
         });
     });
 
@@ -180,7 +2292,7 @@ describe("wordpressPlugin", () => {
 
             const external = result.external as (id: string) => boolean;
 
-            expect(external("react")).toBe(false);
+            expect(external("clsx")).toBe(false);
             expect(external("@emotion/react")).toBe(false);
             expect(external("./local-file")).toBe(false);
         });
@@ -224,6 +2336,51 @@ describe("wordpressPlugin", () => {
             expect(external("@wordpress/icons")).toBe(false);
             expect(external("@wordpress/dataviews")).toBe(false);
         });
+
+        it("should bundle packages listed in bundle", () => {
+            const plugin = wordpressPlugin({ bundle: ["@wordpress/components"] });
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("@wordpress/components")).toBe(false);
+            expect(external("@wordpress/element")).toBe(true);
+            expect((plugin.resolveId as any)("@wordpress/components", "index.ts")).toBeNull();
+
+            const code = `import { Button } from '@wordpress/components';`;
+            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+
+            expect(result).toBeNull();
+        });
+
+        it("should externalize exempt packages listed in externalize", () => {
+            const plugin = wordpressPlugin({ externalize: ["@wordpress/icons"] });
+            const external = ((plugin.options as any)({}) as Rolldown.InputOptions).external as (
+                id: string,
+            ) => boolean;
+
+            expect(external("@wordpress/icons")).toBe(true);
+            expect(external("@wordpress/dataviews")).toBe(false);
+
+            const result = (plugin.transform as any)?.(
+                `import { plus } from '@wordpress/icons';`,
+                "index.js",
+            ) as TransformResult;
+
+            expect(result?.code).toBe("const plus = wp.icons.plus;");
+
+            const emitFile = vi.fn();
+            (plugin.generateBundle as any).call(
+                { emitFile } as any,
+                {} as any,
+                createBundle(createChunk("editor", ["index.js"])),
+                false,
+            );
+
+            expect(emitFile).toHaveBeenCalledWith(
+                expect.objectContaining({ source: JSON.stringify(["wp-icons"], null, 2) }),
+            );
+        });
     });
 
     describe("custom external mappings", () => {
@@ -239,7 +2396,7 @@ describe("wordpressPlugin", () => {
 
             const code = `import { Field, FieldGroup } from 'acf-input';`;
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const Field = acf.input.Field;");
@@ -258,7 +2415,7 @@ describe("wordpressPlugin", () => {
 
             const code = `import WCBlocks from 'woocommerce-blocks';`;
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const WCBlocks = wc.blocks;");
@@ -276,7 +2433,7 @@ describe("wordpressPlugin", () => {
 
             const code = `import * as ACF from 'acf-input';`;
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const ACF = acf.input;");
@@ -294,7 +2451,7 @@ describe("wordpressPlugin", () => {
 
             const code = `import { Field as ACFField } from 'acf-input';`;
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const ACFField = acf.input.Field;");
@@ -339,7 +2496,7 @@ describe("wordpressPlugin", () => {
             `.trim();
 
             // Transform to trigger dependency tracking
-            (plugin.transform as any)?.(code, "test.tsx");
+            (plugin.transform as any)?.(code, "test.jsx");
 
             // Mock emitFile to capture dependencies
             const emitFile = vi.fn();
@@ -357,7 +2514,12 @@ describe("wordpressPlugin", () => {
                     /* eslint-enable @typescript-eslint/no-unused-vars */
                 };
 
-                plugin.generateBundle.call(context as any, {} as any, {}, false);
+                plugin.generateBundle.call(
+                    context as any,
+                    {} as any,
+                    createBundle(createChunk("editor", ["test.jsx"])),
+                    false,
+                );
             }
 
             expect(emitFile).toHaveBeenCalledWith(
@@ -425,7 +2587,7 @@ describe("wordpressPlugin", () => {
                 import WCBlocks from 'woocommerce-blocks';
             `.trim();
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const Field = acf.input.Field;");
@@ -444,15 +2606,15 @@ describe("wordpressPlugin", () => {
 
             const code = `
                 import { Field } from 'acf-input';
-                import React from 'react';
+                import clsx from 'clsx';
                 import styles from './styles.css';
             `.trim();
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const Field = acf.input.Field;");
-            expect(result?.code).toContain("import React from 'react';");
+            expect(result?.code).toContain("import clsx from 'clsx';");
             expect(result?.code).toContain("import styles from './styles.css';");
         });
 
@@ -468,7 +2630,7 @@ describe("wordpressPlugin", () => {
 
             const code = `import { Component } from '@my/scoped-package';`;
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const Component = myPackage.Component;");
@@ -489,7 +2651,7 @@ describe("wordpressPlugin", () => {
                 import { useState } from '@wordpress/element';
             `.trim();
 
-            const result = (plugin.transform as any)?.(code, "test.tsx") as TransformResult;
+            const result = (plugin.transform as any)?.(code, "test.jsx") as TransformResult;
 
             expect(result).toBeDefined();
             expect(result?.code).toContain("const Field = acf.input.Field;");
@@ -535,9 +2697,9 @@ describe("shouldInjectHmr", () => {
         ).toBe(false);
     });
 
-    it("should return false when code already contains HMR snippet", () => {
+    it("should return false when the module already imports the HMR client", () => {
         expect(
-            shouldInjectHmr('import.meta.hot.on("vite:beforeUpdate", () => {})', "src/editor.ts", {
+            shouldInjectHmr('import "virtual:wordpress-hmr";', "src/editor.ts", {
                 enabled: true,
                 editorPattern: "editor",
             }),
@@ -546,26 +2708,343 @@ describe("shouldInjectHmr", () => {
 });
 
 describe("createHmrCode", () => {
-    it("should include the iframe name in the generated code", () => {
-        const code = createHmrCode("editor-canvas");
+    it("should match iframes with a selector", () => {
+        const code = createHmrCode('iframe[name="editor-canvas"]');
+
+        expect(code).toContain('iframe.matches("iframe[name=\\"editor-canvas\\"]")');
+    });
+
+    it("should join a selector list", () => {
+        const code = createHmrCode(['iframe[name="editor-canvas"]', ".style-book iframe"]);
+
+        expect(code).toContain(
+            'iframe.matches("iframe[name=\\"editor-canvas\\"], .style-book iframe")',
+        );
+    });
+
+    it("should serialize a predicate", () => {
+        const code = createHmrCode((iframe) => iframe.name !== "preview");
+
+        expect(code).toContain('const matchesIframe = ((iframe) => iframe.name !== "preview");');
+    });
+
+    it("should serialize predicates written as methods into a valid client", () => {
+        const { iframes } = {
+            iframes(iframe: HTMLIFrameElement) {
+                return iframe.name !== "preview";
+            },
+        };
+        const { check: asyncIframes } = {
+            async check(iframe: HTMLIFrameElement) {
+                return iframe.name !== "preview";
+            },
+        };
+
+        for (const predicate of [
+            iframes,
+            asyncIframes as any,
+            function named(iframe: HTMLIFrameElement) {
+                return iframe.name !== "preview";
+            },
+        ]) {
+            const { errors } = parseSync("hmr.js", createHmrCode(predicate));
+
+            expect(errors).toEqual([]);
+        }
+
+        expect(createHmrCode(iframes)).toContain(
+            "const matchesIframe = (function iframes(iframe) {",
+        );
+    });
+
+    it("should reject predicates that can't be serialized", () => {
+        const { ["iframe-filter"]: predicate } = {
+            ["iframe-filter"](iframe: HTMLIFrameElement) {
+                return iframe.name !== "preview";
+            },
+        };
 
-        expect(code).toContain('iframe[name="editor-canvas"]');
+        expect(() => createHmrCode(predicate)).toThrow("The hmr.iframes predicate must be");
     });
 
-    it("should use a custom iframe name", () => {
-        const code = createHmrCode("my-custom-iframe");
+    describe("in the browser", () => {
+        const devOrigin = "http://localhost:5173";
+
+        /**
+         * Create a minimal DOM element supporting what the HMR client uses.
+         */
+        const createElement = (nodeName: string, props: Record<string, any> = {}): any => {
+            const attributes: Record<string, string> = { ...props.attributes };
+
+            return {
+                nodeName,
+                textContent: "",
+                getAttribute: (name: string) => attributes[name] ?? null,
+                setAttribute: (name: string, value: string) => (attributes[name] = value),
+                cloneNode() {
+                    return createElement(nodeName, { href: this.href, attributes });
+                },
+                ...props,
+            };
+        };
+
+        /**
+         * Create a minimal document holding a flat list of elements.
+         */
+        const createDocument = (elements: any[] = []): any => ({
+            elements,
+            documentElement: {},
+            head: { appendChild: (element: any) => elements.push(element) },
+            createElement: (nodeName: string) => createElement(nodeName.toUpperCase()),
+            querySelectorAll: (selector: string) =>
+                elements.filter((element) => {
+                    if (selector === "iframe") return element.nodeName === "IFRAME";
+                    if (selector === "style") return element.nodeName === "STYLE";
+                    if (selector === 'link[rel="stylesheet"]') return element.nodeName === "LINK";
+
+                    return element.nodeName === "STYLE" && element.getAttribute("data-vite-dev-id");
+                }),
+        });
+
+        const createIframe = (name: string, contentDocument: any = createDocument()) => {
+            const listeners: Array<() => void> = [];
+
+            return createElement("IFRAME", {
+                name,
+                contentDocument,
+                matches: (selector: string) => selector === "iframe" || selector.includes(name),
+                addEventListener: (_type: string, listener: () => void) => listeners.push(listener),
+                load(document: any) {
+                    this.contentDocument = document;
+                    listeners.forEach((listener) => listener());
+                },
+            });
+        };
+
+        const runClient = (
+            document: any,
+            iframes: Parameters<typeof createHmrCode>[0] = "iframe",
+        ) => {
+            const hot = { on: vi.fn() };
+            const observers: Array<(mutations: unknown[]) => void> = [];
+
+            class MutationObserver {
+                constructor(callback: (mutations: unknown[]) => void) {
+                    observers.push(callback);
+                }
+
+                observe() {}
+            }
+
+            const window = new EventTarget();
+            const code = createHmrCode(iframes)
+                .replace(/import\.meta/g, "meta")
+                .replace(/^export /gm, "");
+
+            const hooks = new Function(
+                "meta",
+                "document",
+                "MutationObserver",
+                "window",
+                `${code}\nreturn { onCssUpdate, onBlockUpdate, onThemeJsonUpdate };`,
+            )({ hot, url: `${devOrigin}/@id/src/editor.js` }, document, MutationObserver, window);
+
+            const handlers = Object.fromEntries(hot.on.mock.calls);
+
+            return {
+                ...hooks,
+                window,
+                beforeUpdate: handlers["vite:beforeUpdate"],
+                afterUpdate: handlers["vite:afterUpdate"],
+                themeJsonUpdate: handlers["wordpress:theme-json-update"],
+                addNodes: (...addedNodes: unknown[]) =>
+                    observers.forEach((observer) => observer([{ addedNodes }])),
+            };
+        };
+
+        const createParentDocument = (iframes: any[] = []) =>
+            createDocument([
+                ...iframes,
+                createElement("STYLE", {
+                    textContent: ".editor { color: red; }",
+                    attributes: { "data-vite-dev-id": "/src/editor.css" },
+                }),
+                createElement("LINK", { href: `${devOrigin}/src/blocks.css` }),
+                createElement("LINK", { href: "https://example.com/wp-admin/load-styles.css" }),
+            ]);
+
+        it("should update stylesheets in every matching same-origin iframe", () => {
+            const iframes = [
+                createIframe(
+                    "editor-canvas",
+                    createDocument([createElement("LINK", { href: `${devOrigin}/app.css` })]),
+                ),
+                createIframe(
+                    "preview",
+                    createDocument([createElement("LINK", { href: `${devOrigin}/app.css?t=1` })]),
+                ),
+                createIframe("youtube", null),
+                createIframe(
+                    "other",
+                    createDocument([createElement("LINK", { href: `${devOrigin}/other.css` })]),
+                ),
+            ];
+            const { beforeUpdate } = runClient(createDocument(iframes));
+
+            beforeUpdate({ updates: [{ path: "/app.css", type: "css-update" }] });
+
+            const hrefs = iframes.map((iframe) => iframe.contentDocument?.elements[0].href);
+
+            expect(hrefs[0]).toMatch(/app\.css\?direct&t=\d+$/);
+            expect(hrefs[1]).toMatch(/app\.css\?direct&t=\d+$/);
+            expect(hrefs[3]).toBe(`${devOrigin}/other.css`);
+        });
+
+        it("should re-import updated stylesheets pulled in with @import", () => {
+            class CSSImportRule {
+                media = { mediaText: "screen" };
+
+                constructor(public href: string) {}
+            }
+
+            const rules: any[] = [
+                new CSSImportRule("/app.css?t=1"),
+                new CSSImportRule(`${devOrigin}/other.css`),
+                { cssText: ".editor { color: red; }" },
+            ];
+            const sheet = {
+                cssRules: rules,
+                deleteRule: (index: number) => rules.splice(index, 1),
+                insertRule: (cssText: string, index: number) => rules.splice(index, 0, { cssText }),
+            };
+            const editor = Object.assign(
+                createDocument([createElement("STYLE", { sheet }), createElement("STYLE")]),
+                { baseURI: `${devOrigin}/wp-admin/`, defaultView: { CSSImportRule } },
+            );
+            const { beforeUpdate } = runClient(createDocument([createIframe("editor", editor)]));
+
+            beforeUpdate({ updates: [{ path: "/app.css", type: "css-update" }] });
+
+            expect(rules[0].cssText).toMatch(
+                new RegExp(`^@import url\\("${devOrigin}/app\\.css\\?direct&t=\\d+"\\) screen;$`),
+            );
+            expect(rules[1].href).toBe(`${devOrigin}/other.css`);
+            expect(rules[2].cssText).toBe(".editor { color: red; }");
+        });
+
+        it("should copy dev styles into existing iframes", () => {
+            const iframe = createIframe("editor-canvas");
+
+            runClient(createParentDocument([iframe]));
+
+            const [style, link] = iframe.contentDocument.elements;
+
+            expect(iframe.contentDocument.elements).toHaveLength(2);
+            expect(style.getAttribute("data-vite-dev-id")).toBe("/src/editor.css");
+            expect(style.textContent).toBe(".editor { color: red; }");
+            expect(link.href).toBe(`${devOrigin}/src/blocks.css`);
+        });
 
-        expect(code).toContain('iframe[name="my-custom-iframe"]');
+        it("should copy dev styles into iframes created after the page loads", () => {
+            const document = createParentDocument();
+            const { addNodes } = runClient(document);
+            const iframe = createIframe("editor-canvas", null);
+
+            addNodes(iframe);
+            iframe.load(createDocument());
+
+            expect(iframe.contentDocument.elements).toHaveLength(2);
+
+            iframe.load(createDocument());
+
+            expect(iframe.contentDocument.elements).toHaveLength(2);
+        });
+
+        it("should copy updated dev styles after an update", () => {
+            const iframe = createIframe("editor-canvas");
+            const document = createParentDocument([iframe]);
+            const { afterUpdate } = runClient(document);
+
+            document.elements[1].textContent = ".editor { color: blue; }";
+            afterUpdate();
+
+            expect(iframe.contentDocument.elements).toHaveLength(2);
+            expect(iframe.contentDocument.elements[0].textContent).toBe(".editor { color: blue; }");
+        });
+
+        it("should leave iframes that don't match alone", () => {
+            const iframe = createIframe("preview");
+
+            runClient(createParentDocument([iframe]), 'iframe[name="editor-canvas"]');
+
+            expect(iframe.contentDocument.elements).toHaveLength(0);
+        });
+
+        it("should run css update hooks after updating the editors", () => {
+            const iframe = createIframe(
+                "editor-canvas",
+                createDocument([createElement("LINK", { href: `${devOrigin}/app.css` })]),
+            );
+            const { beforeUpdate, onCssUpdate } = runClient(createDocument([iframe]));
+            const callback = vi.fn();
+
+            onCssUpdate(callback);
+            beforeUpdate({
+                updates: [
+                    { path: "/app.css", type: "css-update", timestamp: 1 },
+                    { path: "/app.js", type: "js-update", timestamp: 1 },
+                ],
+            });
+
+            expect(callback).toHaveBeenCalledOnce();
+            expect(callback).toHaveBeenCalledWith({
+                path: "/app.css",
+                timestamp: 1,
+                documents: [iframe.contentDocument],
+            });
+        });
+
+        it("should stop running a hook once it is removed", () => {
+            const { beforeUpdate, onCssUpdate } = runClient(createDocument());
+            const callback = vi.fn();
+
+            onCssUpdate(callback)();
+            beforeUpdate({ updates: [{ path: "/app.css", type: "css-update", timestamp: 1 }] });
+
+            expect(callback).not.toHaveBeenCalled();
+        });
+
+        it("should run block update hooks", () => {
+            const { window, onBlockUpdate } = runClient(createDocument());
+            const callback = vi.fn();
+
+            onBlockUpdate(callback);
+            window.dispatchEvent(
+                new CustomEvent("wordpress:block-update", { detail: { blocks: ["acme/hero"] } }),
+            );
+
+            expect(callback).toHaveBeenCalledWith({ blocks: ["acme/hero"] });
+        });
+
+        it("should run theme.json update hooks", () => {
+            const { themeJsonUpdate, onThemeJsonUpdate } = runClient(createDocument());
+            const callback = vi.fn();
+
+            onThemeJsonUpdate(callback);
+            themeJsonUpdate({ file: "theme.json" });
+
+            expect(callback).toHaveBeenCalledWith({ file: "theme.json" });
+        });
     });
 
     it("should include import.meta.hot guard", () => {
-        const code = createHmrCode("editor-canvas");
+        const code = createHmrCode("iframe");
 
         expect(code).toContain("import.meta.hot");
     });
 
     it("should listen for vite:beforeUpdate events", () => {
-        const code = createHmrCode("editor-canvas");
+        const code = createHmrCode("iframe");
 
         expect(code).toContain("vite:beforeUpdate");
     });
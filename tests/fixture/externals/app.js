@@ -0,0 +1,4 @@
+import domReady from "@wordpress/dom-ready";
+import { __ } from "./shared.js";
+
+domReady(() => console.log(__("Ready")));
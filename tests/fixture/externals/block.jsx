@@ -0,0 +1,9 @@
+import { registerBlockType } from "@wordpress/blocks";
+
+registerBlockType("fixture/block", {
+    edit: () => (
+        <>
+            <p>Edit</p>
+        </>
+    ),
+});
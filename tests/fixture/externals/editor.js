@@ -0,0 +1,4 @@
+import { registerBlockType } from "@wordpress/blocks";
+import { __ } from "./shared.js";
+
+registerBlockType("fixture/block", { title: __("Block") });
@@ -0,0 +1,3 @@
+import { speak } from "@wordpress/a11y";
+
+document.addEventListener("click", () => speak("Clicked"));
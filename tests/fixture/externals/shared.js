@@ -0,0 +1,3 @@
+import { __ as translate } from "@wordpress/i18n";
+
+export const __ = (text) => translate(text, "fixture");
@@ -0,0 +1,2 @@
+import "@wordpress/components/build-style/style.css";
+import "./styles.css";
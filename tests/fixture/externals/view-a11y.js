@@ -0,0 +1,10 @@
+import { store } from "@wordpress/interactivity";
+import { speak } from "@wordpress/a11y";
+
+store("fixture", {
+    actions: {
+        announce() {
+            speak("Updated");
+        },
+    },
+});
@@ -0,0 +1,10 @@
+import { store, getContext } from "@wordpress/interactivity";
+
+store("fixture", {
+    actions: {
+        *navigate() {
+            const { actions } = yield import("@wordpress/interactivity-router");
+            yield actions.navigate(getContext().url);
+        },
+    },
+});
@@ -82,6 +82,36 @@ describe("wordpressThemeJson", () => {
         );
     });
 
+    it("should notify the editor when the base theme.json changes", () => {
+        vi.mocked(path.relative).mockReturnValue("theme.json");
+
+        const plugin = wordpressThemeJson({ baseThemeJsonPath: "/project/theme.json" });
+        const send = vi.fn();
+
+        (plugin.hotUpdate as any).call(
+            { environment: { name: "client", hot: { send } } },
+            { file: "/project/theme.json" },
+        );
+
+        expect(send).toHaveBeenCalledWith({
+            type: "custom",
+            event: "wordpress:theme-json-update",
+            data: { file: "theme.json" },
+        });
+    });
+
+    it("should not notify the editor about other files", () => {
+        const plugin = wordpressThemeJson({ baseThemeJsonPath: "/project/theme.json" });
+        const send = vi.fn();
+
+        (plugin.hotUpdate as any).call(
+            { environment: { name: "client", hot: { send } } },
+            { file: "/project/styles/theme.json" },
+        );
+
+        expect(send).not.toHaveBeenCalled();
+    });
+
     it("should handle invalid tailwind config path", async () => {
         const plugin = wordpressThemeJson({
             tailwindConfig: "./nonexistent.config.js",